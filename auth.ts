@@ -0,0 +1,114 @@
+import { Challenge, HttpResponse, parseChallenges } from './index'
+
+export interface BasicChallengeOptions {
+	realm: string
+	/** Tells the client to encode credentials in UTF-8, as RFC 7617 allows */
+	charset?: 'UTF-8'
+}
+
+/**
+ * The error codes of RFC 6750 section 3.1.
+ */
+export type BearerError = 'invalid_request' | 'invalid_token' | 'insufficient_scope'
+
+export interface BearerChallengeOptions {
+	realm?: string
+	/** The scopes required to access the resource */
+	scope?: string | string[]
+	error?: BearerError
+	errorDescription?: string
+	errorUri?: string
+}
+
+export interface DigestChallengeOptions {
+	realm: string
+	/** A fresh server-generated value, which should be unpredictable */
+	nonce: string
+	opaque?: string
+	/** Defaults to SHA-256 */
+	algorithm?: 'MD5' | 'MD5-sess' | 'SHA-256' | 'SHA-256-sess' | 'SHA-512-256' | 'SHA-512-256-sess'
+	/** Defaults to auth */
+	qop?: Array<'auth' | 'auth-int'>
+	/** Tells the client its credentials were right but the nonce had expired, so it can retry without prompting the user */
+	stale?: boolean
+	/** The URIs sharing the protection space */
+	domain?: string[]
+	charset?: 'UTF-8'
+	userhash?: boolean
+}
+
+function defined(params: { [name: string]: string | undefined }): { [name: string]: string } {
+	const result: { [name: string]: string } = {}
+	for (const name of Object.keys(params)) {
+		if (params[name] !== undefined) {
+			result[name] = params[name]!
+		}
+	}
+	return result
+}
+
+/**
+ * Builds a Basic challenge as described by RFC 7617.
+ *
+ * new Unauthorized({ wwwAuthenticate: basic({ realm: 'admin', charset: 'UTF-8' }) })
+ */
+export function basic(options: BasicChallengeOptions): Challenge {
+	return { scheme: 'Basic', params: defined({ realm: options.realm, charset: options.charset }) }
+}
+
+/**
+ * Builds a Bearer challenge as described by RFC 6750.
+ *
+ * new Unauthorized({ wwwAuthenticate: bearer({ realm: 'api', error: 'invalid_token', errorDescription: 'The access token expired' }) })
+ */
+export function bearer(options: BearerChallengeOptions = {}): Challenge {
+	const { realm, scope, error, errorDescription, errorUri } = options
+	return {
+		scheme: 'Bearer',
+		params: defined({
+			realm,
+			scope: Array.isArray(scope) ? scope.join(' ') : scope,
+			error,
+			error_description: errorDescription,
+			error_uri: errorUri,
+		}),
+	}
+}
+
+/**
+ * Builds a Digest challenge as described by RFC 7616.
+ */
+export function digest(options: DigestChallengeOptions): Challenge {
+	const { realm, nonce, opaque, algorithm = 'SHA-256', qop = ['auth'], stale, domain, charset, userhash } = options
+	return {
+		scheme: 'Digest',
+		params: defined({
+			realm,
+			domain: domain && domain.join(' '),
+			qop: qop.join(', '),
+			nonce,
+			opaque,
+			algorithm,
+			stale: stale === undefined ? undefined : String(stale),
+			charset,
+			userhash: userhash === undefined ? undefined : String(userhash),
+		}),
+	}
+}
+
+/**
+ * Reads the challenges of a response from its WWW-Authenticate header, or its Proxy-Authenticate header for a 407.
+ *
+ * const [challenge] = challengesOf(await fromResponse(upstream))
+ */
+export function challengesOf(response: HttpResponse): Challenge[] {
+	const header = response.statusCode === 407 ? 'Proxy-Authenticate' : 'WWW-Authenticate'
+	return parseChallenges(response.getHeader(header) || '')
+}
+
+/**
+ * Finds the challenge of a scheme among those of a response, comparing scheme names case-insensitively.
+ */
+export function findChallenge(response: HttpResponse, scheme: string): Challenge | undefined {
+	return challengesOf(response).find(challenge => challenge.scheme.toLowerCase() === scheme.toLowerCase())
+}
@@ -0,0 +1,57 @@
+import { HttpResponse, fromNetworkError, fromRendered, toResponseHeaders } from './index'
+
+/**
+ * The parts of an axios response the adapter relies on, so the package doesn't depend on axios itself.
+ */
+export interface AxiosResponseLike {
+	status: number
+	statusText: string
+	headers: { [name: string]: unknown }
+	data: unknown
+}
+
+export interface AxiosInstanceLike {
+	interceptors: {
+		response: {
+			use(onFulfilled: (response: AxiosResponseLike) => AxiosResponseLike, onRejected: (error: unknown) => Promise<never>): unknown
+		}
+	}
+}
+
+/**
+ * Converts an axios response into the matching response class. Axios has already parsed JSON bodies, which are unpacked the same way as over the wire.
+ */
+export function fromAxiosResponse(response: AxiosResponseLike): HttpResponse {
+	const headers = toResponseHeaders(response.headers)
+	const { data } = response
+	let body: string | undefined
+	if (typeof data === 'string') {
+		body = data
+	} else if (data !== undefined && data !== null) {
+		body = JSON.stringify(data)
+		if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+			headers['content-type'] = 'application/json'
+		}
+	}
+	return fromRendered({ statusCode: response.status, status: response.statusText, headers, body })
+}
+
+/**
+ * Converts a rejected axios request into a response: the upstream response when there was one, otherwise a `GatewayTimeout`,
+ * `ServiceUnavailable` or `BadGateway` carrying the axios error as its cause.
+ */
+export function fromAxiosError(error: unknown): HttpResponse {
+	const { response } = (error || {}) as { response?: AxiosResponseLike }
+	return response ? fromAxiosResponse(response) : fromNetworkError(error)
+}
+
+/**
+ * Makes an axios instance reject with response classes instead of axios errors:
+ *
+ * intercept(axios)
+ * await axios.get('https://api.foo.com/resource') // rejects with e.g. NotFound
+ */
+export function intercept<T extends AxiosInstanceLike>(instance: T): T {
+	instance.interceptors.response.use(response => response, error => Promise.reject(fromAxiosError(error)))
+	return instance
+}
@@ -0,0 +1,210 @@
+import { HttpResponse, NotModified, PreconditionFailed, PreconditionRequired, ResponseHeaders, findHeader, toResponseHeaders } from './index'
+
+/**
+ * The validators of the current representation of a resource.
+ */
+export interface ResourceState {
+	/** A strong or weak entity tag, quoted as sent in the ETag header */
+	etag?: string
+	lastModified?: Date
+	/** Whether the resource currently exists, which `If-Match: *` and `If-None-Match: *` test. Defaults to true. */
+	exists?: boolean
+}
+
+export interface PreconditionOptions {
+	/** Answers 428 Precondition Required to unsafe requests that carry neither If-Match nor If-Unmodified-Since, preventing lost updates */
+	required?: boolean
+	/** Headers sent along with a 304 Not Modified, such as Cache-Control and Vary, which must match those of the 200 response */
+	headers?: ResponseHeaders
+}
+
+export interface CacheControlOptions {
+	public?: boolean
+	private?: boolean
+	noCache?: boolean
+	noStore?: boolean
+	noTransform?: boolean
+	mustRevalidate?: boolean
+	proxyRevalidate?: boolean
+	immutable?: boolean
+	/** In seconds */
+	maxAge?: number
+	/** In seconds */
+	sMaxAge?: number
+	/** In seconds */
+	staleWhileRevalidate?: number
+	/** In seconds */
+	staleIfError?: number
+}
+
+export interface CachingOptions extends ResourceState {
+	cacheControl?: CacheControlOptions
+	/** The request headers the representation varies with */
+	vary?: string[]
+}
+
+const safeMethods = ['GET', 'HEAD', 'OPTIONS', 'TRACE']
+
+// FNV-1a, which is enough to tell representations apart without depending on a crypto module
+function hash(value: string): string {
+	let hash = 0x811c9dc5
+	for (let index = 0; index < value.length; index++) {
+		hash ^= value.charCodeAt(index)
+		hash = Math.imul(hash, 0x01000193)
+	}
+	return (hash >>> 0).toString(16)
+}
+
+/**
+ * Generates an entity tag for a representation, serializing objects as JSON. Weak tags suit representations that are equivalent without being byte-identical.
+ */
+export function generateETag(representation: string | object, options: { weak?: boolean } = {}): string {
+	const value = typeof representation === 'string' ? representation : JSON.stringify(representation)
+	const tag = `"${value.length.toString(16)}-${hash(value)}"`
+	return options.weak ? `W/${tag}` : tag
+}
+
+/**
+ * Lists the entity tags of an If-Match or If-None-Match header, or returns `*` when it matches any representation.
+ */
+export function parseETags(header: string): string[] | '*' {
+	if (header.trim() === '*') {
+		return '*'
+	}
+	return header.match(/(?:W\/)?"[^"]*"/g) || []
+}
+
+function opaqueTag(etag: string): string {
+	return etag.replace(/^W\//, '')
+}
+
+/**
+ * Compares entity tags as If-Match does: both must be strong and identical.
+ */
+export function strongMatch(a: string, b: string): boolean {
+	return !a.startsWith('W/') && a === b
+}
+
+/**
+ * Compares entity tags as If-None-Match does, ignoring whether they are weak.
+ */
+export function weakMatch(a: string, b: string): boolean {
+	return opaqueTag(a) === opaqueTag(b)
+}
+
+function matches(header: string, resource: ResourceState, compare: (a: string, b: string) => boolean): boolean {
+	const tags = parseETags(header)
+	if (tags === '*') {
+		return resource.exists !== false
+	}
+	return resource.etag !== undefined && tags.some(tag => compare(tag, resource.etag!))
+}
+
+// HTTP dates have a one second precision, so the modification date is truncated before being compared
+function modifiedSince(resource: ResourceState, header: string | undefined): boolean | undefined {
+	const date = header === undefined ? NaN : Date.parse(header)
+	if (!resource.lastModified || isNaN(date)) {
+		return undefined
+	}
+	return Math.floor(resource.lastModified.getTime() / 1000) * 1000 > date
+}
+
+/**
+ * Evaluates the conditional headers of a request against the current state of a resource, following the precedence of RFC 7232 section 6.
+ * Returns `NotModified` or `PreconditionFailed` when the request must stop there, or undefined when it should proceed.
+ *
+ * const precondition = evaluatePreconditions(req.method, req.headers, { etag: generateETag(user), lastModified: user.updatedAt })
+ * if (precondition) return precondition
+ */
+export function evaluatePreconditions(
+	method: string,
+	requestHeaders: { [name: string]: unknown },
+	resource: ResourceState,
+	options: PreconditionOptions = {},
+): HttpResponse | undefined {
+	const headers = toResponseHeaders(requestHeaders)
+	const safe = safeMethods.indexOf(method.toUpperCase()) !== -1
+	const ifMatch = findHeader(headers, 'if-match')
+	const ifUnmodifiedSince = findHeader(headers, 'if-unmodified-since')
+	const ifNoneMatch = findHeader(headers, 'if-none-match')
+	const ifModifiedSince = findHeader(headers, 'if-modified-since')
+
+	if (options.required && !safe && ifMatch === undefined && ifUnmodifiedSince === undefined) {
+		return new PreconditionRequired('This request must be conditional, with an If-Match or If-Unmodified-Since header')
+	}
+	if (ifMatch !== undefined) {
+		if (!matches(ifMatch, resource, strongMatch)) {
+			return new PreconditionFailed('The resource does not match If-Match')
+		}
+	} else if (modifiedSince(resource, ifUnmodifiedSince)) {
+		return new PreconditionFailed('The resource has been modified since If-Unmodified-Since')
+	}
+
+	const retrieval = method.toUpperCase() === 'GET' || method.toUpperCase() === 'HEAD'
+	if (ifNoneMatch !== undefined) {
+		if (matches(ifNoneMatch, resource, weakMatch)) {
+			return retrieval ? notModified(resource, options) : new PreconditionFailed('The resource matches If-None-Match')
+		}
+	} else if (retrieval && modifiedSince(resource, ifModifiedSince) === false) {
+		return notModified(resource, options)
+	}
+	return undefined
+}
+
+function notModified(resource: ResourceState, options: PreconditionOptions): NotModified {
+	return new NotModified({ headers: { ...options.headers, ...validatorHeaders(resource) } })
+}
+
+function validatorHeaders(resource: ResourceState): ResponseHeaders {
+	const headers: ResponseHeaders = {}
+	if (resource.etag !== undefined) {
+		headers.ETag = resource.etag
+	}
+	if (resource.lastModified) {
+		headers['Last-Modified'] = resource.lastModified.toUTCString()
+	}
+	return headers
+}
+
+/**
+ * Builds a Cache-Control header value.
+ *
+ * cacheControl({ private: true, maxAge: 60, mustRevalidate: true }) // 'private, max-age=60, must-revalidate'
+ */
+export function cacheControl(options: CacheControlOptions): string {
+	const directives: Array<[string, boolean | number | undefined]> = [
+		['public', options.public],
+		['private', options.private],
+		['no-cache', options.noCache],
+		['no-store', options.noStore],
+		['no-transform', options.noTransform],
+		['max-age', options.maxAge],
+		['s-maxage', options.sMaxAge],
+		['must-revalidate', options.mustRevalidate],
+		['proxy-revalidate', options.proxyRevalidate],
+		['immutable', options.immutable],
+		['stale-while-revalidate', options.staleWhileRevalidate],
+		['stale-if-error', options.staleIfError],
+	]
+	return directives
+		.filter(([, value]) => value !== undefined && value !== false)
+		.map(([name, value]) => (typeof value === 'number' ? `${name}=${Math.max(0, Math.floor(value))}` : name))
+		.join(', ')
+}
+
+/**
+ * Builds the caching headers of a successful response: ETag, Last-Modified, Cache-Control and Vary.
+ * Pass them as the `headers` of `evaluatePreconditions` so that 304 responses carry them too.
+ *
+ * new Success({ body: user, headers: cachingHeaders({ etag: generateETag(user), cacheControl: { private: true, maxAge: 60 }, vary: ['Accept'] }) })
+ */
+export function cachingHeaders(options: CachingOptions): ResponseHeaders {
+	const headers = validatorHeaders(options)
+	if (options.cacheControl) {
+		headers['Cache-Control'] = cacheControl(options.cacheControl)
+	}
+	if (options.vary && options.vary.length > 0) {
+		headers.Vary = options.vary.join(', ')
+	}
+	return headers
+}
@@ -0,0 +1,38 @@
+import { AdapterOptions, HttpResponse, fromError } from './index'
+import { ServerResponseLike, writeResponse } from './node'
+
+export type NextFunction = (error?: unknown) => void
+
+/**
+ * Error-handling middleware that renders thrown responses. Register it after all other routes:
+ *
+ * app.use(errorHandler({ onError: e => logger.error(e) }))
+ */
+export function errorHandler(options: AdapterOptions = {}) {
+	return (error: unknown, _req: unknown, res: ServerResponseLike, next: NextFunction) => {
+		if (res.headersSent) {
+			return next(error)
+		}
+		if (!(error instanceof HttpResponse) && options.onError) {
+			options.onError(error)
+		}
+		writeResponse(res, fromError(error))
+	}
+}
+
+/**
+ * Wraps a route handler so that the response it returns or resolves with is rendered. Anything thrown is passed on to the error handler.
+ *
+ * app.get('/users/:id', handle(async req => new Success({ body: await users.find(req.params.id) })))
+ */
+export function handle<TRequest>(handler: (req: TRequest, res: ServerResponseLike) => HttpResponse | void | Promise<HttpResponse | void>) {
+	return (req: TRequest, res: ServerResponseLike, next: NextFunction) => {
+		new Promise<HttpResponse | void>(resolve => resolve(handler(req, res)))
+			.then(response => {
+				if (response instanceof HttpResponse && !res.headersSent) {
+					writeResponse(res, response)
+				}
+			})
+			.catch(next)
+	}
+}
@@ -0,0 +1,80 @@
+import { AdapterOptions, HttpResponse, InternalServerError, RenderedResponse, ResponseHeaders, fromError, fromNetworkError, fromRendered } from './index'
+
+/**
+ * Converts a response, or one already rendered such as by `renderFor`, into a WHATWG `Response`, as used by fetch-based runtimes such as Deno, Cloudflare Workers and Node 18+.
+ * Informational (1xx) responses can't be represented and throw a `RangeError`.
+ */
+export function toResponse(response: HttpResponse | RenderedResponse): Response {
+	const { statusCode, status, headers, body } = response instanceof HttpResponse ? response.render() : response
+	return new Response(body === undefined ? null : body, { status: statusCode, statusText: status, headers })
+}
+
+function toRendered(response: Response, body: string): RenderedResponse {
+	const headers: ResponseHeaders = {}
+	response.headers.forEach((value, name) => {
+		headers[name] = value
+	})
+	return { statusCode: response.status, status: response.statusText, headers, body }
+}
+
+/**
+ * Reads a WHATWG `Response` into the matching response class, keeping its headers and unpacking problem details or JSON bodies.
+ */
+export async function fromResponse(response: Response): Promise<HttpResponse> {
+	return fromRendered(toRendered(response, await response.text()))
+}
+
+/**
+ * Performs a request with the global `fetch`, resolving with the response class for 1xx-3xx statuses and rejecting with it for 4xx and 5xx.
+ * Requests that fail without a response, or whose body can't be read, reject with a `GatewayTimeout`, `ServiceUnavailable` or `BadGateway` carrying the original error as its cause.
+ */
+export async function fetchResponse(input: RequestInfo, init?: RequestInit): Promise<HttpResponse> {
+	let upstream: Response
+	let body: string
+	try {
+		upstream = await fetch(input, init)
+		body = await upstream.text()
+	} catch (error) {
+		throw fromNetworkError(error)
+	}
+	const response = fromRendered(toRendered(upstream, body))
+	if (response.statusCode >= 400) {
+		throw response
+	}
+	return response
+}
+
+/**
+ * Wraps a fetch-style handler so that the response it returns, resolves with or throws is converted into a `Response`. Anything else thrown becomes an `InternalServerError`,
+ * and so does a response that fails to render.
+ *
+ * export default { fetch: handle(async request => new Success({ body: await users.list() })) }
+ */
+export function handle<TRequest = Request>(
+	handler: (request: TRequest) => HttpResponse | Response | Promise<HttpResponse | Response>,
+	options: AdapterOptions = {},
+) {
+	return async (request: TRequest): Promise<Response> => {
+		let result: HttpResponse | Response
+		try {
+			result = await handler(request)
+		} catch (error) {
+			if (!(error instanceof HttpResponse) && options.onError) {
+				options.onError(error)
+			}
+			result = fromError(error)
+		}
+		if (!(result instanceof HttpResponse)) {
+			return result
+		}
+		try {
+			return toResponse(result)
+		} catch (error) {
+			// Rendering failed, e.g. on a body JSON can't serialize, so the request gets a bare 500 as in the Node adapter
+			if (options.onError) {
+				options.onError(error)
+			}
+			return toResponse(new InternalServerError({ cause: error }))
+		}
+	}
+}
@@ -0,0 +1,88 @@
+import { HttpResponse, ProblemExtensions, ResponseHeaders, fromError, getReasonPhrase } from './index'
+
+/**
+ * An error as it appears in the `errors` of a GraphQL response.
+ */
+export interface GraphQLFormattedErrorLike {
+	message: string
+	locations?: ReadonlyArray<{ line: number; column: number }>
+	path?: ReadonlyArray<string | number>
+	extensions?: { [name: string]: unknown }
+}
+
+/**
+ * The extensions describing a response in a GraphQL error.
+ */
+export interface GraphQLErrorExtensions extends ProblemExtensions {
+	code: string
+	http: { status: number; headers?: ResponseHeaders }
+}
+
+// The codes Apollo Server uses, so that clients handling them keep working
+const codesByStatusCode: { [statusCode: number]: string } = {
+	400: 'BAD_USER_INPUT',
+	401: 'UNAUTHENTICATED',
+	422: 'BAD_USER_INPUT',
+	500: 'INTERNAL_SERVER_ERROR',
+}
+
+/**
+ * Derives the `extensions.code` of a response: the Apollo Server codes for 400, 401, 422 and 500,
+ * otherwise its status in upper snake case, e.g. NOT_FOUND, or VALIDATION_ERROR for a 400 with a custom `Validation Error` status.
+ */
+export function graphQLCode(response: HttpResponse): string {
+	const { statusCode, status } = response
+	if (codesByStatusCode[statusCode] && status === getReasonPhrase(statusCode)) {
+		return codesByStatusCode[statusCode]
+	}
+	return status
+		.trim()
+		.replace(/[^A-Za-z0-9]+/g, '_')
+		.replace(/^_|_$/g, '')
+		.toUpperCase()
+}
+
+/**
+ * Builds the extensions of a GraphQL error out of a response: its `code`, an `http` block with its status code and headers,
+ * its problem `type` when it has one and its extension members, such as the violations of a `BadRequest`.
+ */
+export function toGraphQLExtensions(response: HttpResponse): GraphQLErrorExtensions {
+	const { type, title, status, detail, ...members } = response.toProblemDetails()
+	const http: GraphQLErrorExtensions['http'] = { status: response.statusCode }
+	if (Object.keys(response.headers).length > 0) {
+		http.headers = { ...response.headers }
+	}
+	const extensions: GraphQLErrorExtensions = { ...members, code: graphQLCode(response), http }
+	if (type !== 'about:blank') {
+		extensions.type = type
+	}
+	return extensions
+}
+
+/**
+ * Renders anything thrown as a GraphQL error. Anything that isn't a response becomes an INTERNAL_SERVER_ERROR without exposing its message, as `fromError` does.
+ *
+ * return { data: null, errors: [toGraphQLError(new NotFound('User 42 does not exist'), { path: ['user'] })] }
+ */
+export function toGraphQLError(error: unknown, location: Pick<GraphQLFormattedErrorLike, 'locations' | 'path'> = {}): GraphQLFormattedErrorLike {
+	const response = fromError(error)
+	return { message: response.toJSON().message, ...location, extensions: toGraphQLExtensions(response) }
+}
+
+/**
+ * A `formatError` hook for Apollo Server and other GraphQL servers, rendering the responses thrown by resolvers, which GraphQL wraps as `originalError`.
+ * Other errors, such as syntax or validation errors, are left as they are.
+ *
+ * new ApolloServer({ typeDefs, resolvers, formatError })
+ */
+export function formatError(formatted: GraphQLFormattedErrorLike, error: unknown): GraphQLFormattedErrorLike {
+	let original = error
+	while (original && typeof original === 'object' && !(original instanceof HttpResponse) && (original as { originalError?: unknown }).originalError) {
+		original = (original as { originalError?: unknown }).originalError
+	}
+	if (!(original instanceof HttpResponse)) {
+		return formatted
+	}
+	const { message, extensions, ...location } = formatted
+	return toGraphQLError(original, location)
+}
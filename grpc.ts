@@ -0,0 +1,124 @@
+import { HttpResponse, ResponseOptions, fromError, fromStatusCode } from './index'
+
+/**
+ * The canonical gRPC status codes.
+ */
+export const grpcStatus = {
+	OK: 0,
+	CANCELLED: 1,
+	UNKNOWN: 2,
+	INVALID_ARGUMENT: 3,
+	DEADLINE_EXCEEDED: 4,
+	NOT_FOUND: 5,
+	ALREADY_EXISTS: 6,
+	PERMISSION_DENIED: 7,
+	RESOURCE_EXHAUSTED: 8,
+	FAILED_PRECONDITION: 9,
+	ABORTED: 10,
+	OUT_OF_RANGE: 11,
+	UNIMPLEMENTED: 12,
+	INTERNAL: 13,
+	UNAVAILABLE: 14,
+	DATA_LOSS: 15,
+	UNAUTHENTICATED: 16,
+}
+
+export type GrpcStatusName = keyof typeof grpcStatus
+
+/**
+ * A gRPC status as grpc-js takes it from a failing handler and reports it to a client, e.g. a `ServiceError`.
+ */
+export interface GrpcStatusLike {
+	code: number
+	details: string
+}
+
+// The statuses of HTTP status codes, following the mapping documented with google.rpc.Code
+const grpcByStatusCode: { [statusCode: number]: GrpcStatusName } = {
+	400: 'INVALID_ARGUMENT',
+	401: 'UNAUTHENTICATED',
+	403: 'PERMISSION_DENIED',
+	404: 'NOT_FOUND',
+	405: 'UNIMPLEMENTED',
+	408: 'DEADLINE_EXCEEDED',
+	409: 'ABORTED',
+	410: 'NOT_FOUND',
+	412: 'FAILED_PRECONDITION',
+	413: 'RESOURCE_EXHAUSTED',
+	416: 'OUT_OF_RANGE',
+	422: 'INVALID_ARGUMENT',
+	428: 'FAILED_PRECONDITION',
+	429: 'RESOURCE_EXHAUSTED',
+	499: 'CANCELLED',
+	501: 'UNIMPLEMENTED',
+	502: 'UNAVAILABLE',
+	503: 'UNAVAILABLE',
+	504: 'DEADLINE_EXCEEDED',
+	507: 'RESOURCE_EXHAUSTED',
+}
+
+const statusCodeByGrpc: { [name in GrpcStatusName]: number } = {
+	OK: 200,
+	CANCELLED: 499,
+	UNKNOWN: 500,
+	INVALID_ARGUMENT: 400,
+	DEADLINE_EXCEEDED: 504,
+	NOT_FOUND: 404,
+	ALREADY_EXISTS: 409,
+	PERMISSION_DENIED: 403,
+	RESOURCE_EXHAUSTED: 429,
+	FAILED_PRECONDITION: 400,
+	ABORTED: 409,
+	OUT_OF_RANGE: 400,
+	UNIMPLEMENTED: 501,
+	INTERNAL: 500,
+	UNAVAILABLE: 503,
+	DATA_LOSS: 500,
+	UNAUTHENTICATED: 401,
+}
+
+/**
+ * Maps a response, or a status code, to a gRPC status code. Unmapped 4xx codes become FAILED_PRECONDITION, unmapped 5xx codes INTERNAL and anything else OK.
+ */
+export function toGrpcCode(response: HttpResponse | number): number {
+	const statusCode = typeof response === 'number' ? response : response.statusCode
+	const name = grpcByStatusCode[statusCode] || (statusCode >= 500 ? 'INTERNAL' : statusCode >= 400 ? 'FAILED_PRECONDITION' : 'OK')
+	return grpcStatus[name]
+}
+
+/**
+ * Maps a gRPC status code to an HTTP status code. Unknown codes become 500.
+ */
+export function toStatusCode(code: number): number {
+	const name = (Object.keys(grpcStatus) as GrpcStatusName[]).find(name => grpcStatus[name] === code)
+	return name ? statusCodeByGrpc[name] : 500
+}
+
+/**
+ * Converts anything thrown into the status a gRPC handler fails with, using the public message of the response as details.
+ * Anything that isn't a response becomes INTERNAL without exposing its message, as `fromError` does.
+ *
+ * callback(toGrpcStatus(error))
+ */
+export function toGrpcStatus(error: unknown): GrpcStatusLike {
+	const response = fromError(error)
+	return { code: toGrpcCode(response), details: response.toJSON().message }
+}
+
+/**
+ * Builds the response class matching a gRPC status code, e.g. a `NotFound` for NOT_FOUND or an `Unauthorized` for UNAUTHENTICATED,
+ * the latter without the WWW-Authenticate header a status can't provide.
+ */
+export function fromGrpcStatus(code: number, options?: string | ResponseOptions): HttpResponse {
+	return fromStatusCode(toStatusCode(code), options)
+}
+
+/**
+ * Converts the error of a gRPC call into the matching response class, keeping its details as the message and the error as its cause.
+ *
+ * client.getUser({ id }, (error, user) => { if (error) throw fromGrpcError(error) })
+ */
+export function fromGrpcError(error: Partial<GrpcStatusLike> & { message?: string }): HttpResponse {
+	const code = typeof error.code === 'number' ? error.code : grpcStatus.UNKNOWN
+	return fromGrpcStatus(code, { message: error.details || undefined, cause: error })
+}
@@ -0,0 +1,128 @@
+import { HttpResponse, MessageParams } from './index'
+
+export interface LocaleMessages {
+	[key: string]: string
+}
+
+export interface CatalogMessages {
+	[locale: string]: LocaleMessages
+}
+
+/**
+ * Replaces the `{name}` placeholders of a message with the matching params. Placeholders without a param are left as they are.
+ */
+export function interpolate(template: string, params: MessageParams = {}): string {
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (params[name] === undefined ? placeholder : String(params[name])))
+}
+
+/**
+ * Lists the language tags of an Accept-Language header from most to least preferred, leaving out those the client refuses with q=0.
+ */
+export function parseAcceptLanguage(header: string): string[] {
+	return header
+		.split(',')
+		.map((range, index) => {
+			const [tag, ...params] = range.trim().split(';')
+			const q = params.map(param => param.trim().split('=')).find(([name]) => name === 'q')
+			return { tag: tag.trim(), quality: q ? Number(q[1]) : 1, index }
+		})
+		.filter(({ tag, quality }) => tag && quality > 0)
+		.sort((a, b) => b.quality - a.quality || a.index - b.index)
+		.map(({ tag }) => tag)
+}
+
+// The progressively less specific forms of a language tag, e.g. zh-Hant-TW, zh-Hant and zh
+function truncations(locale: string): string[] {
+	const subtags = locale.split('-')
+	return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'))
+}
+
+/**
+ * Translates response messages. Messages are looked up by the response's `messageKey`, then by its status code (e.g. `404`) and then by its status class (e.g. `4xx`),
+ * first in the requested locale, then in its less specific forms (`fr-CA` falls back to `fr`) and finally in the default locale.
+ * The response's own message is used when no translation is found.
+ */
+export class MessageCatalog {
+	private readonly messages: CatalogMessages = {}
+	// Locales are matched case-insensitively but reported as they were added
+	private readonly locales: { [lowerCase: string]: string } = {}
+
+	constructor(public readonly defaultLocale: string = 'en', messages: CatalogMessages = {}) {
+		for (const locale of Object.keys(messages)) {
+			this.add(locale, messages[locale])
+		}
+	}
+
+	/**
+	 * Adds messages to a locale, replacing those with the same key.
+	 */
+	public add(locale: string, messages: LocaleMessages): this {
+		const key = locale.toLowerCase()
+		this.messages[key] = { ...this.messages[key], ...messages }
+		this.locales[key] = locale
+		return this
+	}
+
+	/**
+	 * Picks the locale to answer in from an Accept-Language header, falling back to the default locale.
+	 */
+	public negotiate(acceptLanguage?: string): string {
+		const locales = Object.keys(this.locales).concat(this.defaultLocale.toLowerCase())
+		for (const tag of parseAcceptLanguage(acceptLanguage || '')) {
+			if (tag === '*') {
+				return this.defaultLocale
+			}
+			// `fr-CA` is answered in `fr`, and `de` in `de-DE` when that's the only German there is
+			const language = tag.split('-')[0].toLowerCase()
+			const match =
+				truncations(tag).map(locale => locale.toLowerCase()).find(locale => locales.indexOf(locale) !== -1) ||
+				locales.find(locale => locale.split('-')[0] === language)
+			if (match) {
+				return match === this.defaultLocale.toLowerCase() ? this.defaultLocale : this.locales[match]
+			}
+		}
+		return this.defaultLocale
+	}
+
+	/**
+	 * Lists the locales searched for a translation, e.g. `zh-Hant-TW`, `zh-Hant`, `zh` and then the default locale.
+	 */
+	public fallbackChain(locale: string): string[] {
+		const chain = truncations(locale)
+		if (chain.every(candidate => candidate.toLowerCase() !== this.defaultLocale.toLowerCase())) {
+			chain.push(this.defaultLocale)
+		}
+		return chain
+	}
+
+	/**
+	 * Translates the message of a response into a locale.
+	 */
+	public translate(response: HttpResponse, locale: string): string {
+		const { messageKey, messageParams, statusCode } = response
+		const keys = [String(statusCode), `${Math.floor(statusCode / 100)}xx`]
+		if (messageKey) {
+			keys.unshift(messageKey)
+		}
+		for (const candidate of this.fallbackChain(locale)) {
+			const messages = this.messages[candidate.toLowerCase()] || {}
+			const key = keys.find(key => messages[key] !== undefined)
+			if (key) {
+				return interpolate(messages[key], messageParams)
+			}
+		}
+		return response.message
+	}
+
+	/**
+	 * Returns a copy of a response, of the same class, with its message translated into a locale.
+	 */
+	public localize<T extends HttpResponse>(response: T, locale: string): T {
+		const localized = Object.create(Object.getPrototypeOf(response))
+		for (const name of Object.getOwnPropertyNames(response)) {
+			Object.defineProperty(localized, name, Object.getOwnPropertyDescriptor(response, name)!)
+		}
+		Object.defineProperty(localized, 'message', { value: this.translate(response, locale), enumerable: true, writable: true, configurable: true })
+		return localized
+	}
+}
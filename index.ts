@@ -1,586 +1,2022 @@
 import * as HttpStatus from 'http-status-codes'
 
-interface Options {
+export interface Options<TBody = unknown> {
 	statusCode: number
 	message?: string
 	status?: string
+	/** The underlying failure this response wraps. Only retained by error responses. */
+	cause?: unknown
+	/** A URI identifying the problem type, see https://tools.ietf.org/html/rfc7807#section-3.1 */
+	type?: string
+	/** A URI identifying this specific occurrence of the problem. */
+	instance?: string
+	/** Additional members rendered alongside the standard problem details fields. */
+	extensions?: ProblemExtensions
+	headers?: ResponseHeaders
+	body?: TBody
+	/** Identifies the message in a message catalog so it can be translated later, see `i18n` */
+	messageKey?: string
+	/** Values interpolated into the translated message */
+	messageParams?: MessageParams
 }
 
-export class HttpResponse {
+export interface MessageParams {
+	[name: string]: unknown
+}
+
+export interface ResponseHeaders {
+	[name: string]: string
+}
+
+export interface ProblemExtensions {
+	[member: string]: unknown
+}
+
+/**
+ * An `application/problem+json` body as defined by RFC 7807 and RFC 9457.
+ */
+export interface ProblemDetails {
+	type: string
+	title: string
+	status: number
+	detail: string
+	instance?: string
+	/** The body of the response, when it has one */
+	body?: unknown
+	[extension: string]: unknown
+}
+
+export const PROBLEM_JSON = 'application/problem+json'
+
+export const PROBLEM_XML = 'application/problem+xml'
+
+/**
+ * The JSON representation of a response, as produced by `toJSON`.
+ */
+export interface ResponseEnvelope<TBody = unknown> {
+	statusCode: number
+	status: string
+	message: string
+	body?: TBody
+	/** Only present in debug mode */
+	stack?: string
+	/** Only present in debug mode */
+	cause?: unknown
+}
+
+/**
+ * The internal representation of a response meant for logs, as produced by `toLog`.
+ */
+export interface LogRecord {
+	name: string
+	statusCode: number
+	status: string
+	message: string
+	type?: string
+	instance?: string
+	headers: ResponseHeaders
+	body?: unknown
+	extensions?: ProblemExtensions
+	stack?: string
+	cause?: unknown
+}
+
+export interface SerializationOptions {
+	/** Replaces the message of 5xx responses by their status. Defaults to whether NODE_ENV is "production". */
+	production?: boolean
+	/** Adds stacks and causes to the serialized responses. Never enable it in production. Defaults to false. */
+	debug?: boolean
+	/** Keys whose values are redacted from logs, matched case-insensitively when given as strings */
+	redactKeys?: Array<string | RegExp>
+	/** Keys whose values are also redacted from what's sent to clients. Defaults to none, since bodies legitimately carry tokens or passwords. */
+	publicRedactKeys?: Array<string | RegExp>
+	/** Replaces redacted values. Defaults to "[REDACTED]". */
+	redactedValue?: string
+}
+
+/**
+ * A response reduced to what goes over the wire, as produced by `render`.
+ */
+export interface RenderedResponse {
+	statusCode: number
+	status: string
+	headers: ResponseHeaders
+	/** Text, sent encoded as UTF-8, or bytes, sent as they are */
+	body?: string | Uint8Array
+}
+
+/**
+ * Options shared by the framework adapters.
+ */
+export interface AdapterOptions {
+	/** Called with every error that isn't an HttpResponse, before it is replaced by an InternalServerError. */
+	onError?: (error: unknown) => void
+}
+
+/**
+ * Options accepted by the pre-defined response classes in place of a plain message.
+ */
+export type ResponseOptions<TBody = unknown> = Pick<Options<TBody>, Exclude<keyof Options, 'statusCode'>>
+
+declare const process: { env: { [name: string]: string | undefined } } | undefined
+
+/**
+ * Options of the responses that point at a resource, where `location` populates the Location header.
+ */
+export interface LocationOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	location?: string
+}
+
+/**
+ * Options of the responses that may ask the client to come back later, where `retryAfter` populates the Retry-After header.
+ */
+export interface RetryAfterOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	/** Either a delay in seconds or the date after which to retry */
+	retryAfter?: number | Date
+}
+
+/**
+ * The state of a rate limit quota.
+ */
+export interface RateLimit {
+	/** How many requests the quota allows */
+	limit: number
+	/** How many requests are left in the quota */
+	remaining: number
+	/** Seconds until the quota resets */
+	reset: number
+}
+
+/**
+ * Options of `TooManyRequests`, where the quota populates the RateLimit headers. Retry-After defaults to the `reset` of the quota.
+ */
+export interface RateLimitOptions<TBody = unknown> extends RetryAfterOptions<TBody>, Partial<RateLimit> {}
+
+/**
+ * Options of `MethodNotAllowed`, where `allow` lists the methods the resource supports.
+ */
+export interface AllowOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	allow?: string[]
+}
+
+/**
+ * The outcome of an operation on one of the resources of a batch, identified by `id`, e.g. its URL.
+ */
+export interface MultiStatusResult {
+	id: string
+	response: HttpResponse
+}
+
+/**
+ * Options of `MultiStatus`, where `results` lists the outcome for each resource.
+ */
+export interface MultiStatusOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	results?: MultiStatusResult[]
+}
+
+export interface MultiStatusSummary {
+	total: number
+	/** Results with a 1xx, 2xx or 3xx status */
+	succeeded: number
+	/** Results with a 4xx or 5xx status */
+	failed: number
+	/** How many results each status code has */
+	statusCodes: { [statusCode: string]: number }
+}
+
+/**
+ * How a batch collapses into a single response:
+ * - `never` always answers `MultiStatus`,
+ * - `uniform` answers with the status every result shares, if any,
+ * - a function may return the response to answer with, or undefined for `MultiStatus`.
+ */
+export type CollapsePolicy = 'never' | 'uniform' | ((results: MultiStatusResult[]) => HttpResponse | undefined)
+
+/**
+ * An authentication challenge of a WWW-Authenticate or Proxy-Authenticate header, such as `Bearer realm="api", error="invalid_token"`.
+ */
+export interface Challenge {
+	scheme: string
+	/** The single value some schemes use instead of parameters */
+	token68?: string
+	/** Parameter names are case-insensitive and parsed in lower case */
+	params?: { [name: string]: string }
+}
+
+/**
+ * Options of `Unauthorized`, where `wwwAuthenticate` holds the challenges for the client, either formatted or as objects.
+ */
+export interface AuthenticateOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	wwwAuthenticate?: string | Challenge | Challenge[]
+}
+
+/**
+ * Options of `ProxyAuthenticationRequired`, where `proxyAuthenticate` holds the challenges for the client, either formatted or as objects.
+ */
+export interface ProxyAuthenticateOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	proxyAuthenticate?: string | Challenge | Challenge[]
+}
+
+/**
+ * Options of `UpgradeRequired`, where `upgrade` names the protocols the client should switch to.
+ */
+export interface UpgradeOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	upgrade?: string
+}
+
+/**
+ * A single invalid field of a request, as carried by `BadRequest` and `UnprocessableEntity`.
+ */
+export interface FieldViolation {
+	/** A JSON pointer to the offending field, e.g. `/items/0/quantity` */
+	path: string
+	/** A machine readable reason, e.g. `required` or `too_small` */
+	code: string
+	message: string
+}
+
+/**
+ * Options of `BadRequest` and `UnprocessableEntity`, where `violations` lists the invalid fields of the request.
+ */
+export interface ValidationOptions<TBody = unknown> extends ResponseOptions<TBody> {
+	violations?: FieldViolation[]
+}
+
+type CaptureStackTrace = (target: object, constructor?: Function) => void
+
+// Reason phrases as registered with IANA @ https://www.iana.org/assignments/http-status-codes
+const reasonPhrases: { [statusCode: number]: string } = {
+	100: 'Continue',
+	101: 'Switching Protocols',
+	102: 'Processing',
+	103: 'Early Hints',
+	200: 'OK',
+	201: 'Created',
+	202: 'Accepted',
+	203: 'Non-Authoritative Information',
+	204: 'No Content',
+	205: 'Reset Content',
+	206: 'Partial Content',
+	207: 'Multi-Status',
+	208: 'Already Reported',
+	226: 'IM Used',
+	300: 'Multiple Choices',
+	301: 'Moved Permanently',
+	302: 'Found',
+	303: 'See Other',
+	304: 'Not Modified',
+	305: 'Use Proxy',
+	307: 'Temporary Redirect',
+	308: 'Permanent Redirect',
+	400: 'Bad Request',
+	401: 'Unauthorized',
+	402: 'Payment Required',
+	403: 'Forbidden',
+	404: 'Not Found',
+	405: 'Method Not Allowed',
+	406: 'Not Acceptable',
+	407: 'Proxy Authentication Required',
+	408: 'Request Timeout',
+	409: 'Conflict',
+	410: 'Gone',
+	411: 'Length Required',
+	412: 'Precondition Failed',
+	413: 'Content Too Large',
+	414: 'URI Too Long',
+	415: 'Unsupported Media Type',
+	416: 'Range Not Satisfiable',
+	417: 'Expectation Failed',
+	421: 'Misdirected Request',
+	422: 'Unprocessable Content',
+	423: 'Locked',
+	424: 'Failed Dependency',
+	425: 'Too Early',
+	426: 'Upgrade Required',
+	428: 'Precondition Required',
+	429: 'Too Many Requests',
+	431: 'Request Header Fields Too Large',
+	451: 'Unavailable For Legal Reasons',
+	500: 'Internal Server Error',
+	501: 'Not Implemented',
+	502: 'Bad Gateway',
+	503: 'Service Unavailable',
+	504: 'Gateway Timeout',
+	505: 'HTTP Version Not Supported',
+	506: 'Variant Also Negotiates',
+	507: 'Insufficient Storage',
+	508: 'Loop Detected',
+	510: 'Not Extended',
+	511: 'Network Authentication Required',
+}
+
+/**
+ * Returns the IANA reason phrase of a status code. Unregistered codes such as 418 fall back to http-status-codes, and to "Unknown" when it doesn't know them either.
+ */
+export function getReasonPhrase(statusCode: number): string {
+	if (reasonPhrases[statusCode]) {
+		return reasonPhrases[statusCode]
+	}
+	try {
+		return HttpStatus.getStatusText(statusCode)
+	} catch (e) {
+		return 'Unknown'
+	}
+}
+
+function describe<TBody>(options: Options<TBody>) {
+	const { message, statusCode } = options
+	const status = options.status || getReasonPhrase(statusCode)
+	const { type, instance, extensions, body, messageKey, messageParams } = options
+	const headers = { ...options.headers }
+	return { statusCode, status, message: message || status, type, instance, extensions, headers, body, messageKey, messageParams }
+}
+
+/**
+ * Tells whether a value is a `Uint8Array`, such as a Node `Buffer`, including those created in another realm.
+ */
+export function isBytes(value: unknown): value is Uint8Array {
+	return Object.prototype.toString.call(value) === '[object Uint8Array]'
+}
+
+/**
+ * Looks up a header regardless of the case it was set with, e.g. in request headers as frameworks pass them.
+ */
+export function findHeader(headers: ResponseHeaders | undefined, name: string): string | undefined {
+	const lowerCaseName = name.toLowerCase()
+	const key = Object.keys(headers || {}).find(key => key.toLowerCase() === lowerCaseName)
+	return key === undefined ? undefined : headers![key]
+}
+
+function withStatusCode<TBody>(statusCode: number, message?: string | ResponseOptions<TBody>, status?: string): Options<TBody> {
+	if (typeof message === 'object') {
+		return { ...message, statusCode, status: message.status || status }
+	}
+	return { statusCode, message, status }
+}
+
+function withHeader<T extends ResponseOptions<unknown>>(message: string | T | undefined, name: string, value: string | undefined): string | T | undefined {
+	if (value === undefined) {
+		return message
+	}
+	const options = (typeof message === 'object' ? message : { message }) as T
+	return { ...options, headers: { ...options.headers, [name]: value } }
+}
+
+/**
+ * Thrown when a class that is meaningless without a header is constructed without it, e.g. a `SeeOther` without a Location.
+ */
+export class MissingHeaderError extends TypeError {
+	public readonly statusCode: number
+	/** The name of the missing header */
+	public readonly header: string
+	constructor(statusCode: number, header: string) {
+		super(`${statusCode} responses require a ${header} header`)
+		Object.setPrototypeOf(this, new.target.prototype)
+		this.name = 'MissingHeaderError'
+		this.statusCode = statusCode
+		this.header = header
+	}
+}
+
+/**
+ * Example values for the headers that some classes require, shared by the test factories and the generated OpenAPI documents.
+ */
+export const requiredHeaderExamples: { readonly [name: string]: string } = {
+	Location: '/',
+	Allow: 'GET, HEAD',
+	'WWW-Authenticate': 'Bearer realm="example"',
+	'Proxy-Authenticate': 'Basic realm="example"',
+	Upgrade: 'h2c',
+}
+
+// Marks the options passed by `buildResponse`, since the responses it builds come from elsewhere and can't be fixed
+const skipHeaderChecks = Symbol('skipHeaderChecks')
+
+function requireHeader<TBody>(options: Options<TBody>, name: string): Options<TBody> {
+	const skip = (options as { [skipHeaderChecks]?: boolean })[skipHeaderChecks]
+	if (!skip && findHeader(options.headers, name) === undefined) {
+		throw new MissingHeaderError(options.statusCode, name)
+	}
+	return options
+}
+
+function isViolation(value: unknown): value is FieldViolation {
+	const violation = value as FieldViolation
+	return !!violation && typeof violation.path === 'string' && typeof violation.code === 'string' && typeof violation.message === 'string'
+}
+
+// Violations parsed from problem details arrive as the `errors` extension member
+function violationsOf(message?: string | ValidationOptions<unknown>): FieldViolation[] {
+	if (typeof message !== 'object') {
+		return []
+	}
+	if (message.violations) {
+		return message.violations
+	}
+	const errors = message.extensions && message.extensions.errors
+	return Array.isArray(errors) ? errors.filter(isViolation) : []
+}
+
+function withViolations(problem: ProblemDetails, violations: FieldViolation[]): ProblemDetails {
+	return violations.length ? { ...problem, errors: violations } : problem
+}
+
+/**
+ * Builds a JSON pointer from the segments of a path, e.g. `['items', 0, 'quantity']` becomes `/items/0/quantity`.
+ */
+export function toPointer(path: Array<string | number>): string {
+	return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+/**
+ * Combines lists of violations, dropping those reported twice for the same path and code.
+ */
+export function mergeViolations(...lists: FieldViolation[][]): FieldViolation[] {
+	const merged: FieldViolation[] = []
+	for (const violation of ([] as FieldViolation[]).concat(...lists)) {
+		if (!merged.some(({ path, code }) => path === violation.path && code === violation.code)) {
+			merged.push(violation)
+		}
+	}
+	return merged
+}
+
+/**
+ * Formats a Retry-After header value from a delay in seconds or a date.
+ */
+export function formatRetryAfter(retryAfter: number | Date): string {
+	if (retryAfter instanceof Date) {
+		return retryAfter.toUTCString()
+	}
+	if (!(retryAfter >= 0)) {
+		throw new RangeError('Retry-After must be a non-negative number of seconds')
+	}
+	return String(Math.ceil(retryAfter))
+}
+
+/**
+ * Builds the RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset headers of a quota, which successful responses should carry too.
+ */
+export function rateLimitHeaders(quota: Partial<RateLimit>): ResponseHeaders {
+	const headers: ResponseHeaders = {}
+	if (quota.limit !== undefined) {
+		headers['RateLimit-Limit'] = String(quota.limit)
+	}
+	if (quota.remaining !== undefined) {
+		headers['RateLimit-Remaining'] = String(Math.max(0, quota.remaining))
+	}
+	if (quota.reset !== undefined) {
+		headers['RateLimit-Reset'] = String(Math.max(0, Math.ceil(quota.reset)))
+	}
+	return headers
+}
+
+const token = "[!#$%&'*+.^_`|~0-9A-Za-z-]+"
+const tokenPattern = new RegExp(`^${token}$`)
+// An auth-param, whose value is either a token or a quoted string
+const paramPattern = new RegExp(`^(${token})[ \\t]*=[ \\t]*(?:(${token})|"((?:[^"\\\\]|\\\\.)*)")`)
+
+function quote(value: string): string {
+	return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+/**
+ * Formats challenges into the value of a WWW-Authenticate or Proxy-Authenticate header.
+ * Parameter values are quoted, except for the tokens RFC 7616 sends unquoted in Digest challenges: `algorithm`, `stale`, `userhash` and `charset`.
+ */
+export function formatChallenges(challenges: Challenge | Challenge[]): string {
+	return ([] as Challenge[])
+		.concat(challenges)
+		.map(({ scheme, token68, params = {} }) => {
+			const unquoted = scheme.toLowerCase() === 'digest' ? ['algorithm', 'stale', 'userhash', 'charset'] : []
+			const formatted = Object.keys(params).map(name => {
+				const value = params[name]
+				return `${name}=${unquoted.indexOf(name.toLowerCase()) !== -1 && tokenPattern.test(value) ? value : quote(value)}`
+			})
+			const credentials = token68 !== undefined ? token68 : formatted.join(', ')
+			return credentials ? `${scheme} ${credentials}` : scheme
+		})
+		.join(', ')
+}
+
+/**
+ * Parses the value of a WWW-Authenticate or Proxy-Authenticate header into its challenges, as described by RFC 7235 section 4.1.
+ *
+ * parseChallenges('Basic realm="api", Bearer error="invalid_token"') // [{ scheme: 'Basic', params: { realm: 'api' } }, { scheme: 'Bearer', params: { error: 'invalid_token' } }]
+ */
+export function parseChallenges(header: string): Challenge[] {
+	const challenges: Challenge[] = []
+	let rest = header.replace(/^[\s,]+/, '')
+	let scheme: RegExpExecArray | null
+	while ((scheme = new RegExp(`^${token}`).exec(rest))) {
+		const challenge: Challenge = { scheme: scheme[0] }
+		challenges.push(challenge)
+		rest = rest.slice(scheme[0].length).replace(/^[ \t]+/, '')
+		const token68 = /^[A-Za-z0-9\-._~+/]+=*(?=[ \t]*(,|$))/.exec(rest)
+		if (token68 && !paramPattern.test(rest)) {
+			challenge.token68 = token68[0]
+			rest = rest.slice(token68[0].length)
+		}
+		// Parameters are separated by commas too, so the list ends where something other than a parameter follows a comma
+		let param: RegExpExecArray | null
+		while (!challenge.token68 && (param = paramPattern.exec(rest))) {
+			const value = param[2] !== undefined ? param[2] : param[3].replace(/\\(.)/g, '$1')
+			challenge.params = { ...challenge.params, [param[1].toLowerCase()]: value }
+			rest = rest.slice(param[0].length)
+			const separator = /^[ \t]*,[\s,]*/.exec(rest)
+			if (!separator || !paramPattern.test(rest.slice(separator[0].length))) {
+				break
+			}
+			rest = rest.slice(separator[0].length)
+		}
+		rest = rest.replace(/^[\s,]+/, '')
+	}
+	return challenges
+}
+
+function challenge<TBody>(message: string | ResponseOptions<TBody> | undefined, name: string, challenges: string | Challenge | Challenge[] | undefined) {
+	return withHeader(message, name, challenges === undefined || typeof challenges === 'string' ? challenges : formatChallenges(challenges))
+}
+
+function location<TBody>(message?: string | LocationOptions<TBody>) {
+	return withHeader(message, 'Location', typeof message === 'object' ? message.location : undefined)
+}
+
+function retryAfter<TBody>(message?: string | RetryAfterOptions<TBody>) {
+	const value = typeof message === 'object' && message.retryAfter !== undefined ? formatRetryAfter(message.retryAfter) : undefined
+	return withHeader(message, 'Retry-After', value)
+}
+
+function rateLimit<TBody>(message?: string | RateLimitOptions<TBody>) {
+	if (typeof message !== 'object') {
+		return message
+	}
+	const { retryAfter = message.reset } = message
+	return { ...message, retryAfter, headers: { ...rateLimitHeaders(message), ...message.headers } }
+}
+
+let serialization: SerializationOptions = {
+	debug: false,
+	redactKeys: [/passw(or)?d/i, /secret/i, /token/i, /authorization/i, /cookie/i, /api[-_]?key/i, /credential/i],
+	publicRedactKeys: [],
+	redactedValue: '[REDACTED]',
+}
+
+/**
+ * Changes how responses are serialized. Logs are redacted with `redactKeys`, while the bodies and extension members sent to clients are only redacted with `publicRedactKeys`.
+ */
+export function configureSerialization(options: SerializationOptions): void {
+	serialization = { ...serialization, ...options }
+}
+
+function isProduction(): boolean {
+	if (serialization.production !== undefined) {
+		return serialization.production
+	}
+	return typeof process !== 'undefined' && process.env.NODE_ENV === 'production'
+}
+
+function isRedacted(key: string, keys: Array<string | RegExp>): boolean {
+	return keys.some(pattern => (typeof pattern === 'string' ? pattern.toLowerCase() === key.toLowerCase() : pattern.test(key)))
+}
+
+function isPlainObject(value: object): boolean {
+	const prototype = Object.getPrototypeOf(value)
+	return prototype === Object.prototype || prototype === null
+}
+
+function redactValue(value: unknown, keys: Array<string | RegExp>, seen: object[]): unknown {
+	if (!value || typeof value !== 'object') {
+		return value
+	}
+	const object = value as { [key: string]: unknown }
+	if (seen.indexOf(object) !== -1) {
+		return '[Circular]'
+	}
+	const nested = seen.concat([object])
+	// Objects are serialized the way JSON.stringify would, so a toJSON hiding internal fields is honored
+	const { toJSON } = object
+	if (typeof toJSON === 'function') {
+		return redactValue(toJSON.call(object), keys, nested)
+	}
+	if (Array.isArray(object)) {
+		return object.map(item => redactValue(item, keys, nested))
+	}
+	if (!isPlainObject(object)) {
+		return object
+	}
+	const copy: { [key: string]: unknown } = {}
+	for (const key of Object.keys(object)) {
+		const item = object[key]
+		copy[key] = isRedacted(key, keys) ? serialization.redactedValue : redactValue(item, keys, nested)
+	}
+	return copy
+}
+
+/**
+ * Deeply copies a value, replacing the values of sensitive keys, by default the `redactKeys` configured with `configureSerialization`.
+ * Values with a `toJSON` method are copied as what it returns. Only plain objects and arrays are walked, other objects are kept as they are.
+ */
+export function redact<T>(value: T, keys: Array<string | RegExp> = serialization.redactKeys || []): T {
+	return redactValue(value, keys, []) as T
+}
+
+// What's sent to clients is left untouched unless public redaction was asked for
+function redactPublic<T>(value: T): T {
+	const keys = serialization.publicRedactKeys || []
+	return keys.length > 0 ? redact(value, keys) : value
+}
+
+interface Throwable {
+	stack?: string
+	cause?: unknown
+}
+
+// Causes are serialized down to their own causes, up to a depth that protects from cycles
+function serializeCause(cause: unknown, depth: number): unknown {
+	if (depth > 5) {
+		return '[Truncated]'
+	}
+	if (cause instanceof HttpResponse) {
+		return logRecord(cause, depth)
+	}
+	if (cause instanceof Error) {
+		const { name, message, stack } = cause
+		return { ...redact({ ...cause }), name, message, stack, cause: serializeCause((cause as Throwable).cause, depth + 1) }
+	}
+	return redact(cause)
+}
+
+function logRecord(response: HttpResponse, depth: number): LogRecord {
+	const { statusCode, status, message, type, instance, body, extensions } = response
+	const { stack, cause } = response as Throwable
+	const record: LogRecord = { name: response.constructor.name, statusCode, status, message, headers: redact(response.headers) }
+	const optional = { type, instance, body: redact(body), extensions: redact(extensions), stack, cause: serializeCause(cause, depth + 1) }
+	for (const key of Object.keys(optional) as Array<keyof typeof optional>) {
+		if (optional[key] !== undefined) {
+			record[key] = optional[key] as never
+		}
+	}
+	return record
+}
+
+// The message shown to clients: server errors can reveal internals, so production only tells them what went wrong
+function publicMessage(response: HttpResponse): string {
+	return isProduction() && response.statusCode >= 500 ? response.status : response.message
+}
+
+function withDebugInfo<T extends object>(serialized: T, response: HttpResponse): T {
+	if (!serialization.debug) {
+		return serialized
+	}
+	const { stack, cause } = response as Throwable
+	return { ...serialized, stack, cause: serializeCause(cause, 0) }
+}
+
+export class HttpResponse<TBody = unknown> {
 	public readonly statusCode: number
 	public readonly message: string
 	public readonly status: string
-	constructor(options: Options) {
-		const { status, message, statusCode } = options
-		try {
-			this.status = status || HttpStatus.getStatusText(options.statusCode)
-		} catch (e) {
-			this.status = 'Unknown'
-		}
-		this.message = message || this.status
+	public readonly type?: string
+	public readonly instance?: string
+	public readonly extensions?: ProblemExtensions
+	public readonly headers: ResponseHeaders
+	public readonly body?: TBody
+	public readonly messageKey?: string
+	public readonly messageParams?: MessageParams
+	constructor(options: Options<TBody>) {
+		const { status, message, statusCode, type, instance, extensions, headers, body, messageKey, messageParams } = describe(options)
+		this.status = status
+		this.message = message
 		this.statusCode = statusCode
+		this.type = type
+		this.instance = instance
+		this.extensions = extensions
+		this.headers = headers
+		this.body = body
+		this.messageKey = messageKey
+		this.messageParams = messageParams
+	}
+
+	/**
+	 * Renders the same envelope for every response, with the body only present when one was given.
+	 */
+	public toJSON(): ResponseEnvelope<TBody> {
+		const envelope: ResponseEnvelope<TBody> = { statusCode: this.statusCode, status: this.status, message: publicMessage(this) }
+		if (this.body !== undefined) {
+			envelope.body = redactPublic(this.body)
+		}
+		return withDebugInfo(envelope, this)
+	}
+
+	/**
+	 * Describes the response for logs, with the original message, the headers, the stack and the whole cause chain. Sensitive keys are redacted.
+	 */
+	public toLog(): LogRecord {
+		return logRecord(this, 0)
+	}
+
+	/**
+	 * Serializes the response for an adapter to send: errors as problem details, anything else as its JSON envelope.
+	 * Statuses that can't have a body (1xx, 204, 205 and 304) are rendered without one. Byte bodies, and string bodies given a Content-Type, are sent as they are.
+	 */
+	public render(): RenderedResponse {
+		const { statusCode, status } = this
+		const headers = { ...this.headers }
+		if (statusCode < 200 || statusCode === 204 || statusCode === 205 || statusCode === 304) {
+			return { statusCode, status, headers }
+		}
+		// Bytes, or a string body sent with a content type of its own, are already the representation, e.g. a file, text or serialized JSON
+		const contentType = findHeader(headers, 'Content-Type')
+		if (isBytes(this.body)) {
+			if (contentType === undefined) {
+				headers['Content-Type'] = 'application/octet-stream'
+			}
+			return { statusCode, status, headers, body: this.body }
+		}
+		if (typeof this.body === 'string' && contentType !== undefined) {
+			return { statusCode, status, headers, body: this.body }
+		}
+		const isError = statusCode >= 400
+		if (contentType === undefined) {
+			headers['Content-Type'] = `${isError ? PROBLEM_JSON : 'application/json'}; charset=utf-8`
+		}
+		return { statusCode, status, headers, body: JSON.stringify(isError ? this.toProblemDetails() : this.toJSON()) }
+	}
+
+	/**
+	 * Looks up a header regardless of the case it was set with.
+	 */
+	public getHeader(name: string): string | undefined {
+		return findHeader(this.headers, name)
+	}
+
+	/**
+	 * Renders the response as an RFC 7807 problem details object, using `status` as the title and `message` as the detail.
+	 * The body, when one was given, is added as the `body` extension member.
+	 */
+	public toProblemDetails(): ProblemDetails {
+		const problem: ProblemDetails = {
+			...redactPublic(this.extensions),
+			type: this.type || 'about:blank',
+			title: this.status,
+			status: this.statusCode,
+			detail: publicMessage(this),
+		}
+		if (this.instance !== undefined) {
+			problem.instance = this.instance
+		}
+		if (this.body !== undefined) {
+			problem.body = redactPublic(this.body)
+		}
+		return withDebugInfo(problem, this)
+	}
+
+	/**
+	 * Error responses extend `Error` rather than `HttpResponse`, but should still be caught by `instanceof HttpResponse`.
+	 */
+	static [Symbol.hasInstance](instance: unknown): boolean {
+		const isInstance = Function.prototype[Symbol.hasInstance]
+		return isInstance.call(this, instance) || (this === HttpResponse && isInstance.call(HttpError, instance))
+	}
+}
+
+/**
+ * Parent class of every 4xx and 5xx response. These are real `Error`s: throwing one captures a stack trace, its `name` matches the class and the original failure can be attached as `cause`.
+ */
+export class HttpError<TBody = unknown> extends Error {
+	public readonly message!: string
+	public readonly cause?: unknown
+	constructor(options: Options<TBody>) {
+		const { message, ...fields } = describe(options)
+		super(message)
+		// Restores the prototype chain when compiled down to ES5
+		Object.setPrototypeOf(this, new.target.prototype)
+		// Serializes like any other response: `message` is listed alongside the status, `name` and `cause` are not
+		Object.defineProperties(this, {
+			name: { value: new.target.name, writable: true, configurable: true },
+			message: { value: message, enumerable: true, writable: true, configurable: true },
+			cause: { value: options.cause, writable: true, configurable: true },
+		})
+		Object.assign(this, fields)
+		const captureStackTrace: CaptureStackTrace | undefined = (Error as { captureStackTrace?: CaptureStackTrace }).captureStackTrace
+		if (captureStackTrace) {
+			captureStackTrace(this, new.target)
+		}
+	}
+}
+
+export interface HttpError<TBody = unknown> extends HttpResponse<TBody> {}
+
+// An error can't extend both Error and HttpResponse, so it borrows the response methods instead
+for (const key of Object.getOwnPropertyNames(HttpResponse.prototype)) {
+	if (key !== 'constructor') {
+		Object.defineProperty(HttpError.prototype, key, Object.getOwnPropertyDescriptor(HttpResponse.prototype, key)!)
+	}
+}
+
+/**
+ * Parent class of the 1xx responses, which are interim and sent before the final response.
+ */
+export abstract class InformationalResponse<TBody = unknown> extends HttpResponse<TBody> {}
+
+/**
+ * Parent class of the 2xx responses, meaning the request was received, understood and accepted.
+ */
+export abstract class SuccessResponse<TBody = unknown> extends HttpResponse<TBody> {}
+
+/**
+ * Parent class of the 3xx responses, meaning further action is needed to complete the request.
+ */
+export abstract class RedirectResponse<TBody = unknown> extends HttpResponse<TBody> {}
+
+/**
+ * Parent class of the 4xx responses, meaning the request is at fault and shouldn't be repeated unchanged.
+ */
+export abstract class ClientError<TBody = unknown> extends HttpError<TBody> {}
+
+/**
+ * Parent class of the 5xx responses, meaning the server failed to fulfill a valid request.
+ */
+export abstract class ServerError<TBody = unknown> extends HttpError<TBody> {}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.3
+ *
+ * See `Accepted.description`.
+ */
+export class Accepted<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'The request has been received but not yet acted upon. It is non-committal, meaning that there is no way in HTTP to later send an asynchronous response indicating the outcome of processing the request. It is intended for cases where another process or server handles the request, or for batch processing.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(202, message))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc5842#section-7.1
+ *
+ * See `AlreadyReported.description`.
+ */
+export class AlreadyReported<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'Used inside a Multi-Status response to avoid enumerating the internal members of multiple bindings to the same collection repeatedly.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(208, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.2.1
  *
- * This interim response indicates that everything so far is OK and that the client should continue with the request or ignore it if it is already finished.
+ * See `Continue.description`.
  */
-export class Continue extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 100, message })
+export class Continue<TBody = unknown> extends InformationalResponse<TBody> {
+	public static readonly description: string = 'This interim response indicates that everything so far is OK and that the client should continue with the request or ignore it if it is already finished.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(100, message))
 	}
 }
 
 /**
- * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.14
+ * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.2
  *
- * This response code means the expectation indicated by the Expect request header field can't be met by the server.
+ * See `Created.description`.
  */
+export class Created<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'The request has succeeded and a new resource has been created as a result of it. This is typically the response sent after a POST or PUT request.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(withStatusCode(201, location(message)))
+	}
+}
 
-export class Created extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 201, message })
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc8297#section-2
+ *
+ * See `EarlyHints.description`.
+ */
+export class EarlyHints<TBody = unknown> extends InformationalResponse<TBody> {
+	public static readonly description: string = 'This interim response lets the client start preloading resources, typically announced with Link headers, while the server prepares the final response.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(103, message))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc3229#section-10.4.1
+ *
+ * See `IMUsed.description`.
+ */
+export class IMUsed<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'The server has fulfilled a GET request for the resource, and the response is a representation of the result of one or more instance-manipulations applied to the current instance.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(226, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.2
  *
- * This response code means that URI of requested resource has been changed. Probably, new URI would be given in the response.
+ * See `MovedPermanently.description`.
  */
-export class MovedPermanently extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 301, message })
+export class MovedPermanently<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'This response code means that URI of requested resource has been changed. Probably, new URI would be given in the response.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(requireHeader(withStatusCode(301, location(message)), 'Location'))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.3
  *
- * This response code means that URI of requested resource has been changed temporarily. New changes in the URI might be made in the future. Therefore, this same URI should be used by the client in future requests.
+ * See `MovedTemporarily.description`.
  */
-export class MovedTemporarily extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 302, message })
+export class MovedTemporarily<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'This response code means that URI of requested resource has been changed temporarily. New changes in the URI might be made in the future. Therefore, this same URI should be used by the client in future requests.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(requireHeader(withStatusCode(302, location(message)), 'Location'))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.2
  *
- * A Multi-Status response conveys information about multiple resources in situations where multiple status codes might be appropriate.
+ * See `MultiStatus.description`.
  */
-export class MultiStatus extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 207, message })
+export class MultiStatus<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'A Multi-Status response conveys information about multiple resources in situations where multiple status codes might be appropriate.'
+	public readonly results: MultiStatusResult[]
+	constructor(message?: string | MultiStatusOptions<TBody>) {
+		super(withStatusCode(207, message))
+		this.results = typeof message === 'object' && message.results ? message.results.slice() : []
+	}
+
+	/**
+	 * Counts the results by outcome and status code.
+	 */
+	public summarize(): MultiStatusSummary {
+		const summary: MultiStatusSummary = { total: this.results.length, succeeded: 0, failed: 0, statusCodes: {} }
+		for (const { response } of this.results) {
+			if (response.statusCode >= 400) {
+				summary.failed++
+			} else {
+				summary.succeeded++
+			}
+			summary.statusCodes[response.statusCode] = (summary.statusCodes[response.statusCode] || 0) + 1
+		}
+		return summary
+	}
+
+	/**
+	 * Renders the results, when there are some, as the body: each one with its `id` and its own envelope, plus its problem details for errors, followed by a summary.
+	 */
+	public toJSON(): ResponseEnvelope<TBody> {
+		const envelope = super.toJSON()
+		if (this.results.length === 0) {
+			return envelope
+		}
+		const results = this.results.map(({ id, response }) => {
+			const result = { id, ...response.toJSON() }
+			return response instanceof HttpError ? { ...result, problem: response.toProblemDetails() } : result
+		})
+		return { ...envelope, body: ({ results, summary: this.summarize() } as unknown) as TBody }
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.1
  *
- * The request has more than one possible responses. User-agent or user should choose one of them. There is no standardized way to choose one of the responses.
+ * See `MultipleChoices.description`.
  */
-export class MultipleChoices extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 300, message })
+export class MultipleChoices<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'The request has more than one possible responses. User-agent or user should choose one of them. There is no standardized way to choose one of the responses.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(300, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.5
  *
- * There is no content to send for this request, but the headers may be useful. The user-agent may update its cached headers for this resource with the new ones.
+ * See `NoContent.description`.
  */
-export class NoContent extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 204, message })
+export class NoContent<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'There is no content to send for this request, but the headers may be useful. The user-agent may update its cached headers for this resource with the new ones.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(204, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.4
- * This response code means returned meta-information set is not exact set as available from the origin server, but collected from a local or a third party copy. Except this condition, 200 OK response should be preferred instead of this response.
+ *
+ * See `NonAuthoritativeInformation.description`.
  */
-export class NonAuthoritativeInformation extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 203, message })
+export class NonAuthoritativeInformation<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'This response code means returned meta-information set is not exact set as available from the origin server, but collected from a local or a third party copy. Except this condition, 200 OK response should be preferred instead of this response.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(203, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7232#section-4.1
  *
- * This is used for caching purposes. It is telling to client that response has not been modified. So, client can continue to use same cached version of response.
+ * See `NotModified.description`.
  */
-export class NotModified extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 304, message })
+export class NotModified<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'This is used for caching purposes. It is telling to client that response has not been modified. So, client can continue to use same cached version of response.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(304, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.1
  *
- * The request has succeeded. The meaning of a success varies depending on the HTTP method:
- * GET: The resource has been fetched and is transmitted in the message body.
- * HEAD: The entity headers are in the message body.
- * POST: The resource describing the result of the action is transmitted in the message body.
- * TRACE: The message body contains the request message as received by the server
+ * See `Success.description`.
  */
-export class Success extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 200, message })
+export class Success<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'The request has succeeded. The meaning of a success varies depending on the HTTP method: GET: The resource has been fetched and is transmitted in the message body. HEAD: The entity headers are in the message body. POST: The resource describing the result of the action is transmitted in the message body. TRACE: The message body contains the request message as received by the server'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(200, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7233#section-4.1
  *
- * This response code is used because of range header sent by the client to separate download into multiple streams.
+ * See `PartialContent.description`.
  */
-export class PartialContent extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 206, message })
+export class PartialContent<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'This response code is used because of range header sent by the client to separate download into multiple streams.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(206, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7538#section-3
  *
- * This means that the resource is now permanently located at another URI, specified by the Location: HTTP Response header. This has the same semantics as the 301 Moved Permanently HTTP response code, with the exception that the user agent must not change the HTTP method used: if a POST was used in the first request, a POST must be used in the second request.
+ * See `PermanentRedirect.description`.
  */
-export class PermanentRedirect extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 308, message })
+export class PermanentRedirect<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'This means that the resource is now permanently located at another URI, specified by the Location: HTTP Response header. This has the same semantics as the 301 Moved Permanently HTTP response code, with the exception that the user agent must not change the HTTP method used: if a POST was used in the first request, a POST must be used in the second request.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(requireHeader(withStatusCode(308, location(message)), 'Location'))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.1
  *
- * This code indicates that the server has received and is processing the request, but no response is available yet.
+ * See `Processing.description`.
  */
-export class Processing extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 102, message })
+export class Processing<TBody = unknown> extends InformationalResponse<TBody> {
+	public static readonly description: string = 'This code indicates that the server has received and is processing the request, but no response is available yet.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(102, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.3.6
  *
- * This response code is sent after accomplishing request to tell user agent reset document view which sent this request.
+ * See `ResetContent.description`.
  */
-export class ResetContent extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 205, message })
+export class ResetContent<TBody = unknown> extends SuccessResponse<TBody> {
+	public static readonly description: string = 'This response code is sent after accomplishing request to tell user agent reset document view which sent this request.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(205, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.4
  *
- * Server sent this response to directing client to get requested resource to another URI with an GET request.
+ * See `SeeOther.description`.
  */
-export class SeeOther extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 303, message })
+export class SeeOther<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'Server sent this response to directing client to get requested resource to another URI with an GET request.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(requireHeader(withStatusCode(303, location(message)), 'Location'))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.2.2
  *
- * This code is sent in response to an Upgrade request header by the client, and indicates the protocol the server is switching too.
+ * See `SwitchingProtocols.description`.
  */
-export class SwitchingProtocols extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 101, message })
+export class SwitchingProtocols<TBody = unknown> extends InformationalResponse<TBody> {
+	public static readonly description: string = 'This code is sent in response to an Upgrade request header by the client, and indicates the protocol the server is switching too.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(101, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.7
  *
- * Server sent this response to directing client to get requested resource to another URI with same method that used prior request. This has the same semantic than the 302 Found HTTP response code, with the exception that the user agent must not change the HTTP method used: if a POST was used in the first request, a POST must be used in the second request.
+ * See `TemporaryRedirect.description`.
  */
-export class TemporaryRedirect extends HttpResponse {
-	constructor(message?: string) {
-		super({ statusCode: 307, message })
+export class TemporaryRedirect<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'Server sent this response to directing client to get requested resource to another URI with same method that used prior request. This has the same semantic than the 302 Found HTTP response code, with the exception that the user agent must not change the HTTP method used: if a POST was used in the first request, a POST must be used in the second request.'
+	constructor(message?: string | LocationOptions<TBody>) {
+		super(requireHeader(withStatusCode(307, location(message)), 'Location'))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.5
+ *
+ * See `UseProxy.description`.
+ */
+export class UseProxy<TBody = unknown> extends RedirectResponse<TBody> {
+	public static readonly description: string = 'Deprecated. The requested resource must be accessed through the proxy given by the Location header. Clients are no longer expected to honor it for security reasons.'
+	constructor(message?: string | ResponseOptions<TBody>) {
+		super(withStatusCode(305, message))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.3
  *
- * This error response means that the server, while working as a gateway to get a response needed to handle the request, got an invalid response.
+ * See `BadGateway.description`.
  */
-export class BadGateway extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 502, message, status })
+export class BadGateway<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'This error response means that the server, while working as a gateway to get a response needed to handle the request, got an invalid response.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(502, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.1
  *
- * This response means that server could not understand the request due to invalid syntax.
+ * See `BadRequest.description`.
  */
-export class BadRequest extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 400, message, status })
+export class BadRequest<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response means that server could not understand the request due to invalid syntax.'
+	public readonly violations: FieldViolation[]
+	constructor(message?: string | ValidationOptions<TBody>, status?: string) {
+		super(withStatusCode(400, message, status))
+		this.violations = violationsOf(message)
+	}
+
+	/**
+	 * Lists the violations as the `errors` member, as suggested by RFC 9457.
+	 */
+	public toProblemDetails(): ProblemDetails {
+		return withViolations(super.toProblemDetails(), this.violations)
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.8
  *
- * This response is sent when a request conflicts with the current state of the server.
+ * See `Conflict.description`.
  */
-export class Conflict extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 409, message, status })
+export class Conflict<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response is sent when a request conflicts with the current state of the server.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(409, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.14
  *
- * This response code means the expectation indicated by the Expect request header field can't be met by the server.
+ * See `ExpectationFailed.description`.
  */
-export class ExpectationFailed extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 417, message, status })
+export class ExpectationFailed<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response code means the expectation indicated by the Expect request header field can\'t be met by the server.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(417, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.5
  *
- * The request failed due to failure of a previous request.
+ * See `FailedDependency.description`.
  */
-export class FailedDependency extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 424, message, status })
+export class FailedDependency<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The request failed due to failure of a previous request.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(424, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.3
  *
- * The client does not have access rights to the content, i.e. they are unauthorized, so server is rejecting to give proper response. Unlike 401, the client's identity is known to the server.
+ * See `Forbidden.description`.
  */
-export class Forbidden extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 403, message, status })
+export class Forbidden<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The client does not have access rights to the content, i.e. they are unauthorized, so server is rejecting to give proper response. Unlike 401, the client\'s identity is known to the server.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(403, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.5
  *
- * This error response is given when the server is acting as a gateway and cannot get a response in time.
+ * See `GatewayTimeout.description`.
  */
-export class GatewayTimeout extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 504, message, status })
+export class GatewayTimeout<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'This error response is given when the server is acting as a gateway and cannot get a response in time.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(504, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.9
  *
- * This response would be sent when the requested content has been permenantly deleted from server, with no forwarding address. Clients are expected to remove their caches and links to the resource. The HTTP specification intends this status code to be used for "limited-time, promotional services". APIs should not feel compelled to indicate resources that have been deleted with this status code.
+ * See `Gone.description`.
  */
-export class Gone extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 410, message, status })
+export class Gone<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response would be sent when the requested content has been permenantly deleted from server, with no forwarding address. Clients are expected to remove their caches and links to the resource. The HTTP specification intends this status code to be used for "limited-time, promotional services". APIs should not feel compelled to indicate resources that have been deleted with this status code.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(410, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.6
  *
- * The HTTP version used in the request is not supported by the server.
+ * See `HttpVersionNotSupported.description`.
  */
-export class HttpVersionNotSupported extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 410, message, status })
+export class HttpVersionNotSupported<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The HTTP version used in the request is not supported by the server.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(505, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2324#section-2.3.2
  *
- * Any attempt to brew coffee with a teapot should result in the error code "418 I'm a teapot". The resulting entity body MAY be short and stout.
+ * See `ImATeapot.description`.
  */
-export class ImATeapot extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 418, message, status })
+export class ImATeapot<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'Any attempt to brew coffee with a teapot should result in the error code "418 I\'m a teapot". The resulting entity body MAY be short and stout.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(418, message, status))
 	}
 }
 
 /**
- * UNOFFICIAL w/ NO DOCS
+ * UNOFFICIAL
+ *
+ * See `InsufficientSpaceOnResource.description`.
  */
-export class InsufficientSpaceOnResource extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 419, message, status })
+export class InsufficientSpaceOnResource<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'An unofficial status, taken from early WebDAV drafts, telling that the server has no space left to store the representation it was sent.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(419, message, status))
 	}
 }
 
 /**
- * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.6
+ * Official Documentation @ https://tools.ietf.org/html/rfc4918#section-11.5
  *
- * The server has an internal configuration error: the chosen variant resource is configured to engage in transparent content negotiation itself, and is therefore not a proper end point in the negotiation process.
+ * See `InsufficientStorage.description`.
  */
-export class InsufficientStorage extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 419, message, status })
+export class InsufficientStorage<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The method could not be performed on the resource because the server is unable to store the representation needed to successfully complete the request.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(507, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.1
  *
- * The server has encountered a situation it doesn't know how to handle.
+ * See `InternalServerError.description`.
  */
-export class InternalServerError extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 500, message, status })
+export class InternalServerError<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The server has encountered a situation it doesn\'t know how to handle.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(500, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.10
  *
- * Server rejected the request because the Content-Length header field is not defined and the server requires it.
+ * See `LengthRequired.description`.
  */
-export class LengthRequired extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 411, message, status })
+export class LengthRequired<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'Server rejected the request because the Content-Length header field is not defined and the server requires it.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(411, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.4
  *
- * The resource that is being accessed is locked.
+ * See `Locked.description`.
  */
-export class Locked extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 423, message, status })
+export class Locked<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The resource that is being accessed is locked.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(423, message, status))
 	}
 }
 
 /**
- * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.4.2
+ * Official Documentation @ https://tools.ietf.org/html/rfc5842#section-7.2
+ *
+ * See `LoopDetected.description`.
+ */
+export class LoopDetected<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The server terminated an operation because it encountered an infinite loop while processing a request with "Depth: infinity".'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(508, message, status))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.5
+ *
+ * See `MethodNotAllowed.description`.
+ */
+export class MethodNotAllowed<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The request method is known by the server but has been disabled and cannot be used. For example, an API may forbid DELETE-ing a resource. The two mandatory methods, GET and HEAD, must never be disabled and should not return this error code.'
+	constructor(message?: string | AllowOptions<TBody>, status?: string) {
+		const allow = typeof message === 'object' && message.allow ? message.allow.join(', ') : undefined
+		super(requireHeader(withStatusCode(405, withHeader(message, 'Allow', allow), status), 'Allow'))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7540#section-9.1.2
  *
- * This response code means that URI of requested resource has been changed. Probably, new URI would be given in the response.
+ * See `MisdirectedRequest.description`.
  */
-export class MethodNotAllowed extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 405, message, status })
+export class MisdirectedRequest<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The request was directed at a server that is not able to produce a response. This can be sent by a server that is not configured to produce responses for the combination of scheme and authority that are included in the request URI.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(421, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc6585#section-6
  *
- * The 511 status code indicates that the client needs to authenticate to gain network access.
+ * See `NetworkAuthenticationRequired.description`.
  */
-export class NetworkAuthenticationRequired extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 511, message, status })
+export class NetworkAuthenticationRequired<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The 511 status code indicates that the client needs to authenticate to gain network access.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(511, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.6
  *
- * This response is sent when the web server, after performing server-driven content negotiation, doesn't find any content following the criteria given by the user agent.
+ * See `NotAcceptable.description`.
  */
-export class NotAcceptable extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 406, message, status })
+export class NotAcceptable<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response is sent when the web server, after performing server-driven content negotiation, doesn\'t find any content following the criteria given by the user agent.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(406, message, status))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc2774#section-7
+ *
+ * See `NotExtended.description`.
+ */
+export class NotExtended<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'Further extensions to the request are required for the server to fulfill it. This status code has been obsoleted, as the extension framework it belongs to was never widely deployed.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(510, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.4
  *
- * The server can not find requested resource. In the browser, this means the URL is not recognized. In an API, this can also mean that the endpoint is valid but the resource itself does not exist. Servers may also send this response instead of 403 to hide the existence of a resource from an unauthorized client. This response code is probably the most famous one due to its frequent occurence on the web.
+ * See `NotFound.description`.
  */
-export class NotFound extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 404, message, status })
+export class NotFound<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The server can not find requested resource. In the browser, this means the URL is not recognized. In an API, this can also mean that the endpoint is valid but the resource itself does not exist. Servers may also send this response instead of 403 to hide the existence of a resource from an unauthorized client. This response code is probably the most famous one due to its frequent occurence on the web.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(404, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.2
  *
- * The request method is not supported by the server and cannot be handled. The only methods that servers are required to support (and therefore that must not return this code) are GET and HEAD.
+ * See `NotImplemented.description`.
  */
-export class NotImplemented extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 501, message, status })
+export class NotImplemented<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The request method is not supported by the server and cannot be handled. The only methods that servers are required to support (and therefore that must not return this code) are GET and HEAD.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(501, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.2
  *
- * This response code is reserved for future use. Initial aim for creating this code was using it for digital payment systems however this is not used currently.
+ * See `PaymentRequired.description`.
  */
-export class PaymentRequired extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 402, message, status })
+export class PaymentRequired<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response code is reserved for future use. Initial aim for creating this code was using it for digital payment systems however this is not used currently.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(402, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7232#section-4.2
  *
- * The client has indicated preconditions in its headers which the server does not meet.
+ * See `PreconditionFailed.description`.
  */
-export class PreconditionFailed extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 412, message, status })
+export class PreconditionFailed<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The client has indicated preconditions in its headers which the server does not meet.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(412, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc6585#section-3
  *
- * The origin server requires the request to be conditional. Intended to prevent the 'lost update' problem, where a client GETs a resource's state, modifies it, and PUTs it back to the server, when meanwhile a third party has modified the state on the server, leading to a conflict.
+ * See `PreconditionRequired.description`.
  */
-export class PreconditionRequired extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 428, message, status })
+export class PreconditionRequired<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The origin server requires the request to be conditional. Intended to prevent the \'lost update\' problem, where a client GETs a resource\'s state, modifies it, and PUTs it back to the server, when meanwhile a third party has modified the state on the server, leading to a conflict.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(428, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7235#section-3.2
  *
- * This is similar to 401 but authentication is needed to be done by a proxy.
+ * See `ProxyAuthenticationRequired.description`.
  */
-export class ProxyAuthenticationRequired extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 407, message, status })
+export class ProxyAuthenticationRequired<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This is similar to 401 but authentication is needed to be done by a proxy.'
+	constructor(message?: string | ProxyAuthenticateOptions<TBody>, status?: string) {
+		const challenges = typeof message === 'object' ? message.proxyAuthenticate : undefined
+		super(requireHeader(withStatusCode(407, challenge(message, 'Proxy-Authenticate', challenges), status), 'Proxy-Authenticate'))
+	}
+
+	/**
+	 * The challenges of the Proxy-Authenticate header.
+	 */
+	public get challenges(): Challenge[] {
+		return parseChallenges(this.getHeader('Proxy-Authenticate') || '')
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc6585#section-5
  *
- * The server is unwilling to process the request because its header fields are too large. The request MAY be resubmitted after reducing the size of the request header fields.
+ * See `RequestHeaderFieldsTooLarge.description`.
  */
-export class RequestHeaderFieldsTooLarge extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 431, message, status })
+export class RequestHeaderFieldsTooLarge<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The server is unwilling to process the request because its header fields are too large. The request MAY be resubmitted after reducing the size of the request header fields.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(431, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.7
  *
- * This response is sent on an idle connection by some servers, even without any previous request by the client. It means that the server would like to shut down this unused connection. This response is used much more since some browsers, like Chrome, Firefox 27+, or IE9, use HTTP pre-connection mechanisms to speed up surfing. Also note that some servers merely shut down the connection without sending this message.
+ * See `RequestTimeout.description`.
  */
-export class RequestTimeout extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 408, message, status })
+export class RequestTimeout<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'This response is sent on an idle connection by some servers, even without any previous request by the client. It means that the server would like to shut down this unused connection. This response is used much more since some browsers, like Chrome, Firefox 27+, or IE9, use HTTP pre-connection mechanisms to speed up surfing. Also note that some servers merely shut down the connection without sending this message.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(408, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.11
  *
- * Request entity is larger than limits defined by server; the server might close the connection or return an Retry-After header field.
+ * See `RequestTooLong.description`.
  */
-export class RequestTooLong extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 413, message, status })
+export class RequestTooLong<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'Request entity is larger than limits defined by server; the server might close the connection or return an Retry-After header field.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(413, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.12
  *
- * The URI requested by the client is longer than the server is willing to interpret.
+ * See `RequestURITooLong.description`.
  */
-export class RequestURITooLong extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 414, message, status })
+export class RequestURITooLong<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The URI requested by the client is longer than the server is willing to interpret.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(414, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7233#section-4.4
  *
- * The range specified by the Range header field in the request can't be fulfilled; it's possible that the range is outside the size of the target URI's data.
+ * See `RequestedRangeNotSatisfiable.description`.
  */
-export class RequestedRangeNotSatisfiable extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 416, message, status })
+export class RequestedRangeNotSatisfiable<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The range specified by the Range header field in the request can\'t be fulfilled; it\'s possible that the range is outside the size of the target URI\'s data.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(416, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.6.4
  *
- * The server is not ready to handle the request. Common causes are a server that is down for maintenance or that is overloaded. Note that together with this response, a user-friendly page explaining the problem should be sent. This responses should be used for temporary conditions and the Retry-After: HTTP header should, if possible, contain the estimated time before the recovery of the service. The webmaster must also take care about the caching-related headers that are sent along with this response, as these temporary condition responses should usually not be cached.
+ * See `ServiceUnavailable.description`.
  */
-export class ServiceUnavailable extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 503, message, status })
+export class ServiceUnavailable<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The server is not ready to handle the request. Common causes are a server that is down for maintenance or that is overloaded. Note that together with this response, a user-friendly page explaining the problem should be sent. This responses should be used for temporary conditions and the Retry-After: HTTP header should, if possible, contain the estimated time before the recovery of the service. The webmaster must also take care about the caching-related headers that are sent along with this response, as these temporary condition responses should usually not be cached.'
+	constructor(message?: string | RetryAfterOptions<TBody>, status?: string) {
+		super(withStatusCode(503, retryAfter(message), status))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc8470#section-5.2
+ *
+ * See `TooEarly.description`.
+ */
+export class TooEarly<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The server is unwilling to risk processing a request that might be replayed, such as one sent in TLS early data.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(425, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc6585#section-4
  *
- * The user has sent too many requests in a given amount of time ("rate limiting").
+ * See `TooManyRequests.description`.
  */
-export class TooManyRequests extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 429, message, status })
+export class TooManyRequests<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The user has sent too many requests in a given amount of time ("rate limiting").'
+	public readonly limit?: number
+	public readonly remaining?: number
+	public readonly reset?: number
+	constructor(message?: string | RateLimitOptions<TBody>, status?: string) {
+		super(withStatusCode(429, retryAfter(rateLimit(message)), status))
+		if (typeof message === 'object') {
+			this.limit = message.limit
+			this.remaining = message.remaining
+			this.reset = message.reset
+		}
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7235#section-3.1
  *
- * Although the HTTP standard specifies "unauthorized", semantically this response means "unauthenticated". That is, the client must authenticate itself to get the requested response.
+ * See `Unauthorized.description`.
  */
-export class Unauthorized extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 401, message, status })
+export class Unauthorized<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'Although the HTTP standard specifies "unauthorized", semantically this response means "unauthenticated". That is, the client must authenticate itself to get the requested response.'
+	constructor(message?: string | AuthenticateOptions<TBody>, status?: string) {
+		const challenges = typeof message === 'object' ? message.wwwAuthenticate : undefined
+		super(requireHeader(withStatusCode(401, challenge(message, 'WWW-Authenticate', challenges), status), 'WWW-Authenticate'))
+	}
+
+	/**
+	 * The challenges of the WWW-Authenticate header.
+	 */
+	public get challenges(): Challenge[] {
+		return parseChallenges(this.getHeader('WWW-Authenticate') || '')
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7725#section-3
+ *
+ * See `UnavailableForLegalReasons.description`.
+ */
+export class UnavailableForLegalReasons<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The user-agent requested a resource that cannot legally be provided, such as a web page censored by a government.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(451, message, status))
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc2518#section-10.3
  *
- * The request was well-formed but was unable to be followed due to semantic errors.
+ * See `UnprocessableEntity.description`.
  */
-export class UnprocessableEntity extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 422, message, status })
+export class UnprocessableEntity<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The request was well-formed but was unable to be followed due to semantic errors.'
+	public readonly violations: FieldViolation[]
+	constructor(message?: string | ValidationOptions<TBody>, status?: string) {
+		super(withStatusCode(422, message, status))
+		this.violations = violationsOf(message)
+	}
+
+	/**
+	 * Lists the violations as the `errors` member, as suggested by RFC 9457.
+	 */
+	public toProblemDetails(): ProblemDetails {
+		return withViolations(super.toProblemDetails(), this.violations)
 	}
 }
 
 /**
  * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.13
  *
- * The media format of the requested data is not supported by the server, so the server is rejecting the request.
+ * See `UnsupportedMediaType.description`.
  */
-export class UnsupportedMediaType extends HttpResponse {
-	constructor(message?: string, status?: string) {
-		super({ statusCode: 415, message, status })
+export class UnsupportedMediaType<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The media format of the requested data is not supported by the server, so the server is rejecting the request.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(415, message, status))
 	}
 }
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc7231#section-6.5.15
+ *
+ * See `UpgradeRequired.description`.
+ */
+export class UpgradeRequired<TBody = unknown> extends ClientError<TBody> {
+	public static readonly description: string = 'The server refuses to perform the request using the current protocol but might be willing to do so after the client upgrades to a different protocol, named in the Upgrade header.'
+	constructor(message?: string | UpgradeOptions<TBody>, status?: string) {
+		const upgrade = typeof message === 'object' ? message.upgrade : undefined
+		super(requireHeader(withStatusCode(426, withHeader(message, 'Upgrade', upgrade), status), 'Upgrade'))
+	}
+}
+
+/**
+ * Official Documentation @ https://tools.ietf.org/html/rfc2295#section-8.1
+ *
+ * See `VariantAlsoNegotiates.description`.
+ */
+export class VariantAlsoNegotiates<TBody = unknown> extends ServerError<TBody> {
+	public static readonly description: string = 'The server has an internal configuration error: the chosen variant resource is configured to engage in transparent content negotiation itself, and is therefore not a proper end point in the negotiation process.'
+	constructor(message?: string | ResponseOptions<TBody>, status?: string) {
+		super(withStatusCode(506, message, status))
+	}
+}
+
+/**
+ * Any response class that can be constructed from options alone, as every pre-defined class can.
+ */
+export interface ResponseClass<T extends HttpResponse = HttpResponse> {
+	new (options?: ResponseOptions): T
+}
+
+const classesByStatusCode = new Map<number, ResponseClass>([
+	[100, Continue],
+	[101, SwitchingProtocols],
+	[102, Processing],
+	[103, EarlyHints],
+	[200, Success],
+	[201, Created],
+	[202, Accepted],
+	[203, NonAuthoritativeInformation],
+	[204, NoContent],
+	[205, ResetContent],
+	[206, PartialContent],
+	[207, MultiStatus],
+	[208, AlreadyReported],
+	[226, IMUsed],
+	[300, MultipleChoices],
+	[301, MovedPermanently],
+	[302, MovedTemporarily],
+	[303, SeeOther],
+	[304, NotModified],
+	[305, UseProxy],
+	[307, TemporaryRedirect],
+	[308, PermanentRedirect],
+	[400, BadRequest],
+	[401, Unauthorized],
+	[402, PaymentRequired],
+	[403, Forbidden],
+	[404, NotFound],
+	[405, MethodNotAllowed],
+	[406, NotAcceptable],
+	[407, ProxyAuthenticationRequired],
+	[408, RequestTimeout],
+	[409, Conflict],
+	[410, Gone],
+	[411, LengthRequired],
+	[412, PreconditionFailed],
+	[413, RequestTooLong],
+	[414, RequestURITooLong],
+	[415, UnsupportedMediaType],
+	[416, RequestedRangeNotSatisfiable],
+	[417, ExpectationFailed],
+	[418, ImATeapot],
+	[419, InsufficientSpaceOnResource],
+	[421, MisdirectedRequest],
+	[422, UnprocessableEntity],
+	[423, Locked],
+	[424, FailedDependency],
+	[425, TooEarly],
+	[426, UpgradeRequired],
+	[428, PreconditionRequired],
+	[429, TooManyRequests],
+	[431, RequestHeaderFieldsTooLarge],
+	[451, UnavailableForLegalReasons],
+	[500, InternalServerError],
+	[501, NotImplemented],
+	[502, BadGateway],
+	[503, ServiceUnavailable],
+	[504, GatewayTimeout],
+	[505, HttpVersionNotSupported],
+	[506, VariantAlsoNegotiates],
+	[507, InsufficientStorage],
+	[508, LoopDetected],
+	[510, NotExtended],
+	[511, NetworkAuthenticationRequired],
+])
+
+const classesByProblemType = new Map<string, ResponseClass>()
+
+/**
+ * Makes `fromStatusCode` and the parsers return a custom response class for the given status code, replacing the pre-defined one.
+ */
+export function registerStatusCode(statusCode: number, ResponseClass: ResponseClass): void {
+	classesByStatusCode.set(statusCode, ResponseClass)
+}
+
+/**
+ * Associates a problem `type` URI with a custom response class, so that `fromProblemDetails` yields that class instead of the generic one for its status code.
+ */
+export function registerProblemType(type: string, ResponseClass: ResponseClass): void {
+	classesByProblemType.set(type, ResponseClass)
+}
+
+/**
+ * Returns the class registered for a status code, if any.
+ */
+export function getResponseClass(statusCode: number): ResponseClass | undefined {
+	return classesByStatusCode.get(statusCode)
+}
+
+/**
+ * Builds a response class without checking the headers it requires, as the factories and parsers do: responses received from elsewhere,
+ * such as an upstream 401 without WWW-Authenticate, should still be instances of their class.
+ */
+export function buildResponse<T extends HttpResponse>(ResponseClass: ResponseClass<T>, options?: ResponseOptions): T {
+	const unchecked: ResponseOptions & { [skipHeaderChecks]: boolean } = { ...options, [skipHeaderChecks]: true }
+	return new ResponseClass(unchecked)
+}
+
+/**
+ * Builds the response class registered for a status code, even when it lacks a header the class requires.
+ * Unknown codes fall back to a generic `HttpError` for 4xx and 5xx codes and a generic `HttpResponse` otherwise.
+ */
+export function fromStatusCode<TBody = unknown>(statusCode: number, options?: string | ResponseOptions<TBody>): HttpResponse<TBody> {
+	const ResponseClass = classesByStatusCode.get(statusCode)
+	if (ResponseClass) {
+		return buildResponse(ResponseClass, typeof options === 'string' ? { message: options } : options) as HttpResponse<TBody>
+	}
+	return genericResponse(withStatusCode(statusCode, options))
+}
+
+/**
+ * Aggregates the results of a batch into a `MultiStatus`, or into a single response as the collapse policy allows.
+ * Collapsing a single result returns it as it is. Collapsing several returns a response of their shared status,
+ * built with the headers of the first one and listing the results as its body, or its extension members for errors.
+ *
+ * return multiStatus(await Promise.all(ids.map(async id => ({ id, response: await remove(id) }))), { collapse: 'uniform' })
+ */
+export function multiStatus(results: MultiStatusResult[], options: MultiStatusOptions & { collapse?: CollapsePolicy } = {}): HttpResponse {
+	const { collapse = 'never', ...multiStatusOptions } = options
+	const response = new MultiStatus({ ...multiStatusOptions, results })
+	if (typeof collapse === 'function') {
+		return collapse(results) || response
+	}
+	const statusCodes = Object.keys(response.summarize().statusCodes)
+	if (collapse === 'never' || statusCodes.length !== 1) {
+		return response
+	}
+	if (results.length === 1) {
+		return results[0].response
+	}
+	const [{ response: first }] = results
+	const { body } = response.toJSON() as ResponseEnvelope<{ results: unknown[] }>
+	return first.statusCode >= 400
+		? fromStatusCode(first.statusCode, { headers: first.headers, extensions: { results: body!.results } })
+		: fromStatusCode(first.statusCode, { headers: first.headers, body: body!.results })
+}
+
+function genericResponse<TBody>(options: Options<TBody>): HttpResponse<TBody> {
+	return options.statusCode >= 400 ? new HttpError(options) : new HttpResponse(options)
+}
+
+/**
+ * Turns anything thrown into a response. Responses are returned as they are, anything else becomes an `InternalServerError` that keeps the original error as its `cause` without exposing it.
+ */
+export function fromError(error: unknown): HttpResponse {
+	return error instanceof HttpResponse ? error : new InternalServerError({ cause: error })
+}
+
+interface NetworkError {
+	code?: unknown
+	name?: unknown
+	cause?: unknown
+}
+
+const timeoutCodes = ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNABORTED', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT']
+const unavailableCodes = ['ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN']
+
+// fetch wraps the system error carrying the code, so the whole cause chain is inspected
+function causeChain(error: unknown): NetworkError[] {
+	const chain: NetworkError[] = []
+	for (let current = error; current && typeof current === 'object' && chain.length < 10; current = (current as NetworkError).cause) {
+		chain.push(current as NetworkError)
+	}
+	return chain
+}
+
+/**
+ * Turns a failed outgoing request that never got a response into the response a gateway would send: `GatewayTimeout` for timeouts,
+ * `ServiceUnavailable` when the upstream refused the connection or couldn't be reached, `BadGateway` for anything else such as DNS failures or reset connections.
+ * The original error is kept as the `cause`.
+ */
+export function fromNetworkError(error: unknown): HttpResponse {
+	if (error instanceof HttpResponse) {
+		return error
+	}
+	const chain = causeChain(error)
+	if (chain.some(({ code, name }) => timeoutCodes.indexOf(String(code)) !== -1 || name === 'TimeoutError')) {
+		return new GatewayTimeout({ message: 'Upstream request timed out', cause: error })
+	}
+	if (chain.some(({ code }) => unavailableCodes.indexOf(String(code)) !== -1)) {
+		return new ServiceUnavailable({ message: 'Upstream service is unavailable', cause: error })
+	}
+	return new BadGateway({ message: 'Upstream request failed', cause: error })
+}
+
+/**
+ * Flattens the header maps of http clients, which may hold numbers or arrays, into plain response headers.
+ */
+export function toResponseHeaders(headers: { [name: string]: unknown } | undefined): ResponseHeaders {
+	const flattened: ResponseHeaders = {}
+	for (const name of Object.keys(headers || {})) {
+		const value = headers![name]
+		if (Array.isArray(value)) {
+			flattened[name] = value.join(', ')
+		} else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			flattened[name] = String(value)
+		}
+	}
+	return flattened
+}
+
+/**
+ * Parses an `application/problem+json` body back into a response. The class is chosen by the registered problem `type` first and by `status` second.
+ * The headers received with the body should be passed along, as some classes are meaningless without them.
+ */
+export function fromProblemDetails(body: string | object, headers?: ResponseHeaders): HttpResponse {
+	const problem: unknown = typeof body === 'string' ? JSON.parse(body) : body
+	if (!problem || typeof problem !== 'object') {
+		throw new TypeError('Problem details must be a JSON object')
+	}
+	const details = problem as Partial<ProblemDetails>
+	const { type, status } = details
+	const options = problemOptions(details, headers)
+	const ResponseClass = type && classesByProblemType.get(type)
+	if (ResponseClass) {
+		return buildResponse(ResponseClass, options)
+	}
+	if (typeof status !== 'number') {
+		throw new TypeError('Problem details must include a numeric status')
+	}
+	return fromStatusCode(status, options)
+}
+
+function problemOptions(problem: Partial<ProblemDetails>, headers?: ResponseHeaders): ResponseOptions {
+	const { type, title, status, detail, instance, body, ...extensions } = problem
+	return {
+		type,
+		instance,
+		status: title,
+		message: detail,
+		headers,
+		body,
+		extensions: Object.keys(extensions).length ? extensions : undefined,
+	}
+}
+
+function parseJSON(text: string): unknown {
+	try {
+		return JSON.parse(text)
+	} catch (e) {
+		return undefined
+	}
+}
+
+// Picks the message out of the common shapes of JSON error bodies, e.g. { message }, { error_description }, { error: { message } }
+function errorMessage(json: unknown): string | undefined {
+	if (!json || typeof json !== 'object') {
+		return undefined
+	}
+	const { message, error_description, detail, error } = json as { [key: string]: unknown }
+	const candidates = [message, error_description, detail, error, error && typeof error === 'object' ? (error as { message?: unknown }).message : undefined]
+	return candidates.find((candidate): candidate is string => typeof candidate === 'string')
+}
+
+function isEnvelope(value: unknown): value is ResponseEnvelope {
+	const envelope = value as ResponseEnvelope
+	return !!envelope && typeof envelope.statusCode === 'number' && typeof envelope.status === 'string' && typeof envelope.message === 'string'
+}
+
+/**
+ * Turns a response received over the wire back into a response class, the inverse of `render`. Problem details and JSON envelopes are unpacked, any other JSON, text or bytes are kept as the body
+ * and, for errors, the message of common JSON error shapes becomes the response message.
+ * Upstream servers don't always send the headers a class requires, e.g. a 401 without WWW-Authenticate, which is still read into its class.
+ */
+export function fromRendered(rendered: RenderedResponse): HttpResponse {
+	const { statusCode, headers, body } = rendered
+	const status = rendered.status || undefined
+	const contentType = findHeader(headers, 'Content-Type') || ''
+	const text = isBytes(body) ? new TextDecoder().decode(body) : body || ''
+	const json = /[/+]json\b/.test(contentType) ? parseJSON(text) : undefined
+	let problem: Partial<ProblemDetails> | undefined
+	if (json && typeof json === 'object' && contentType.indexOf(PROBLEM_JSON) !== -1) {
+		const details = json as Partial<ProblemDetails>
+		// Some servers send the status as a string, or not at all, so the one of the status line is used instead
+		problem = { ...details, status: typeof details.status === 'number' ? details.status : statusCode }
+	}
+	let options: ResponseOptions
+	if (problem) {
+		options = problemOptions(problem, headers)
+	} else if (isEnvelope(json)) {
+		options = { status: json.status, message: json.message, body: json.body, headers }
+	} else {
+		const message = statusCode >= 400 ? errorMessage(json) : undefined
+		options = { status, message, headers, body: json === undefined ? (body && body.length ? body : undefined) : json }
+	}
+	return problem ? fromProblemDetails(problem, headers) : fromStatusCode(statusCode, options)
+}
+
+function hasStatusCode(value: unknown, min: number, max: number): boolean {
+	return value instanceof HttpResponse && value.statusCode >= min && value.statusCode <= max
+}
+
+export function isHttpResponse(value: unknown): value is HttpResponse {
+	return value instanceof HttpResponse
+}
+
+/**
+ * Whether a value is a 4xx or 5xx error, e.g. something worth catching. Generic `HttpError`s built for codes without a class are recognized too,
+ * plain `HttpResponse`s with an error status code are not since they aren't `Error`s.
+ */
+export function isHttpError(value: unknown): value is HttpError {
+	return value instanceof HttpError && hasStatusCode(value, 400, 599)
+}
+
+/**
+ * Whether a value is a 1xx response. The status code decides, so the narrowed type is `HttpResponse` rather than `InformationalResponse`.
+ */
+export function isInformational(value: unknown): value is HttpResponse {
+	return hasStatusCode(value, 100, 199)
+}
+
+/**
+ * Whether a value is a 2xx response. The status code decides, so the narrowed type is `HttpResponse` rather than `SuccessResponse`.
+ */
+export function isSuccess(value: unknown): value is HttpResponse {
+	return hasStatusCode(value, 200, 299)
+}
+
+/**
+ * Whether a value is a 3xx response. The status code decides, so the narrowed type is `HttpResponse` rather than `RedirectResponse`.
+ */
+export function isRedirect(value: unknown): value is HttpResponse {
+	return hasStatusCode(value, 300, 399)
+}
+
+/**
+ * Whether a value is a 4xx error, i.e. the caller's fault. Generic `HttpError`s built for codes without a class, such as 499, are recognized too,
+ * so the narrowed type is `HttpError` rather than `ClientError`.
+ */
+export function isClientError(value: unknown): value is HttpError {
+	return isHttpError(value) && value.statusCode < 500
+}
+
+/**
+ * Whether a value is a 5xx error, i.e. a failure on the server's side that may be worth retrying.
+ * Generic `HttpError`s are recognized too, so the narrowed type is `HttpError` rather than `ServerError`.
+ */
+export function isServerError(value: unknown): value is HttpError {
+	return isHttpError(value) && value.statusCode >= 500
+}
@@ -0,0 +1,54 @@
+import { AdapterOptions, HttpResponse, RenderedResponse, fromError, isBytes } from './index'
+
+// Koa only runs on Node, whose Buffer the package doesn't otherwise need the types of
+declare const Buffer: { from(buffer: ArrayBuffer, byteOffset: number, length: number): Uint8Array }
+
+/**
+ * The parts of a Koa context the middleware relies on, so the package doesn't depend on Koa itself.
+ */
+export interface KoaContext {
+	status: number
+	message: string
+	body: unknown
+	set(name: string, value: string): void
+}
+
+/**
+ * Sends a response that is already rendered, e.g. in the format the client accepts:
+ *
+ * sendRendered(ctx, renderFor(response, ctx.get('Accept')))
+ */
+export function sendRendered(ctx: KoaContext, rendered: RenderedResponse): void {
+	const { statusCode, status, headers, body } = rendered
+	ctx.status = statusCode
+	ctx.message = status
+	for (const name of Object.keys(headers)) {
+		ctx.set(name, headers[name])
+	}
+	// Koa sends Buffers as they are but serializes any other object as JSON, typed arrays included
+	ctx.body = body === undefined ? null : isBytes(body) ? Buffer.from(body.buffer, body.byteOffset, body.byteLength) : body
+}
+
+/**
+ * Middleware that renders responses thrown downstream or assigned to `ctx.body`. Register it before any routes:
+ *
+ * app.use(middleware({ onError: e => logger.error(e) }))
+ */
+export function middleware(options: AdapterOptions = {}) {
+	return async (ctx: KoaContext, next: () => Promise<unknown>) => {
+		let response: HttpResponse
+		try {
+			await next()
+			if (!(ctx.body instanceof HttpResponse)) {
+				return
+			}
+			response = ctx.body
+		} catch (error) {
+			if (!(error instanceof HttpResponse) && options.onError) {
+				options.onError(error)
+			}
+			response = fromError(error)
+		}
+		sendRendered(ctx, response.render())
+	}
+}
@@ -0,0 +1,291 @@
+import { HttpError, HttpResponse, MultiStatus, NotAcceptable, PROBLEM_JSON, PROBLEM_XML, ProblemDetails, RenderedResponse, ResponseHeaders, UnsupportedMediaType, findHeader, isBytes } from './index'
+
+/**
+ * A media range of an Accept header, such as `text/*;q=0.8`.
+ */
+export interface MediaRange {
+	type: string
+	subtype: string
+	parameters: { [name: string]: string }
+	quality: number
+}
+
+/**
+ * Writes responses in a media type.
+ */
+export interface Serializer {
+	/** The media type the serializer is negotiated with */
+	mediaType: string
+	/** The Content-Type of a serialized response, when it's more specific than the media type. Defaults to the media type. */
+	contentType?: (response: HttpResponse) => string
+	/** Whether the serializer can represent a response. Defaults to every response. */
+	supports?: (response: HttpResponse) => boolean
+	serialize: (response: HttpResponse) => string
+}
+
+function parseMediaType(value: string): MediaRange | undefined {
+	const [essence, ...params] = value.split(';')
+	const [type, subtype] = essence.trim().toLowerCase().split('/')
+	if (!type || !subtype) {
+		return undefined
+	}
+	const parameters: { [name: string]: string } = {}
+	let quality = 1
+	for (const param of params) {
+		const [name, paramValue = ''] = param.split('=').map(part => part.trim())
+		if (name.toLowerCase() === 'q') {
+			quality = Number(paramValue)
+		} else if (name) {
+			parameters[name.toLowerCase()] = paramValue.replace(/^"(.*)"$/, '$1')
+		}
+	}
+	return { type, subtype, parameters, quality: isNaN(quality) ? 0 : Math.min(1, Math.max(0, quality)) }
+}
+
+/**
+ * Parses an Accept header into its media ranges, from the most to the least preferred.
+ */
+export function parseAccept(header: string): MediaRange[] {
+	return header
+		.split(',')
+		.map(parseMediaType)
+		.filter((range): range is MediaRange => range !== undefined)
+		.map((range, index) => ({ range, index }))
+		.sort((a, b) => b.range.quality - a.range.quality || a.index - b.index)
+		.map(({ range }) => range)
+}
+
+// How closely a range matches a media type, from 4 for the same type with the same parameters to 1 for */*, or 0 when it doesn't
+function specificity(range: MediaRange, mediaType: MediaRange): number {
+	if (range.type === '*') {
+		return range.subtype === '*' ? 1 : 0
+	}
+	if (range.type !== mediaType.type) {
+		return 0
+	}
+	if (range.subtype === '*') {
+		return 2
+	}
+	if (range.subtype !== mediaType.subtype) {
+		return 0
+	}
+	const names = Object.keys(range.parameters)
+	if (names.length === 0) {
+		return 3
+	}
+	return names.every(name => mediaType.parameters[name] === range.parameters[name]) ? 4 : 0
+}
+
+/**
+ * Picks the media type to answer with among those a handler offers, in its order of preference, following the quality values of an Accept header.
+ * Returns the first offer when the header is missing, and undefined when the client accepts none of them.
+ *
+ * negotiate('text/html;q=0.9, application/*', ['text/html', 'application/json']) // 'application/json'
+ */
+export function negotiate(accept: string | undefined, offers: string[]): string | undefined {
+	const ranges = accept && accept.trim() ? parseAccept(accept) : []
+	if (ranges.length === 0) {
+		return offers[0]
+	}
+	let best: { offer: string; quality: number } | undefined
+	for (const offer of offers) {
+		const mediaType = parseMediaType(offer)
+		if (!mediaType) {
+			continue
+		}
+		// The quality of an offer is that of the most specific range that matches it
+		let matched: { quality: number; specificity: number } | undefined
+		for (const range of ranges) {
+			const score = specificity(range, mediaType)
+			if (score > 0 && (!matched || score > matched.specificity)) {
+				matched = { quality: range.quality, specificity: score }
+			}
+		}
+		if (matched && matched.quality > 0 && (!best || matched.quality > best.quality)) {
+			best = { offer, quality: matched.quality }
+		}
+	}
+	return best && best.offer
+}
+
+/**
+ * Like `negotiate`, but throws a `NotAcceptable` when the client accepts none of the offered media types.
+ */
+export function requireAcceptable(accept: string | undefined, offers: string[]): string {
+	const mediaType = negotiate(accept, offers)
+	if (mediaType === undefined) {
+		throw new NotAcceptable(`Acceptable media types are ${offers.join(', ')}`)
+	}
+	return mediaType
+}
+
+/**
+ * Checks the Content-Type of a request body against the media types a handler supports, which may be ranges such as `text/*`.
+ * Throws an `UnsupportedMediaType` when it's missing or not supported, and returns its essence otherwise.
+ *
+ * requireContentType(req.headers['content-type'], ['application/json', 'application/merge-patch+json'])
+ */
+export function requireContentType(contentType: string | undefined, supported: string[]): string {
+	const mediaType = contentType === undefined ? undefined : parseMediaType(contentType)
+	if (mediaType) {
+		const match = supported.some(value => {
+			const range = parseMediaType(value)
+			return range !== undefined && specificity(range, mediaType) > 0
+		})
+		if (match) {
+			return `${mediaType.type}/${mediaType.subtype}`
+		}
+	}
+	throw new UnsupportedMediaType(`Supported media types are ${supported.join(', ')}`)
+}
+
+function representation(response: HttpResponse): ProblemDetails | object {
+	return response instanceof HttpError ? response.toProblemDetails() : response.toJSON()
+}
+
+export const json: Serializer = {
+	mediaType: 'application/json',
+	serialize: response => JSON.stringify(representation(response)),
+}
+
+export const problemJson: Serializer = {
+	mediaType: PROBLEM_JSON,
+	supports: response => response instanceof HttpError,
+	serialize: response => JSON.stringify(response.toProblemDetails()),
+}
+
+/**
+ * Writes the status line and the message, followed by the other members of the response's JSON representation.
+ */
+export const text: Serializer = {
+	mediaType: 'text/plain',
+	serialize: response => {
+		const members = representation(response) as { [name: string]: unknown }
+		const lines = Object.keys(members)
+			.filter(name => ['statusCode', 'status', 'message', 'title', 'detail'].indexOf(name) === -1)
+			.filter(name => !(name === 'type' && members[name] === 'about:blank'))
+			.map(name => {
+				const value = members[name]
+				return `${name}: ${typeof value === 'string' ? value : JSON.stringify(value, null, 2)}`
+			})
+		const { statusCode, status, message } = response.toJSON()
+		return [`${statusCode} ${status}`, message, ...lines].join('\n')
+	},
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/[<>&'"]/g, character => `&#${character.charCodeAt(0)};`)
+}
+
+// XML names can't start with a digit or hold most punctuation, so such keys are replaced
+function xmlName(name: string): string {
+	const sanitized = name.replace(/[^\w.-]/g, '_')
+	return /^[A-Za-z_]/.test(sanitized) ? sanitized : `_${sanitized}`
+}
+
+// Arrays are written as <i> elements, as RFC 7807 does
+function toXml(name: string, value: unknown): string {
+	if (value === undefined || typeof value === 'function') {
+		return ''
+	}
+	const element = xmlName(name)
+	if (value === null) {
+		return `<${element}/>`
+	}
+	if (Array.isArray(value)) {
+		return `<${element}>${value.map(item => toXml('i', item)).join('')}</${element}>`
+	}
+	if (typeof value === 'object' && !(value instanceof Date)) {
+		const members = value as { [name: string]: unknown }
+		return `<${element}>${Object.keys(members)
+			.map(key => toXml(key, members[key]))
+			.join('')}</${element}>`
+	}
+	return `<${element}>${escapeXml(value instanceof Date ? value.toISOString() : String(value))}</${element}>`
+}
+
+/**
+ * Writes a `MultiStatus` as a WebDAV `multistatus` element (RFC 4918 section 13), with a `response` element for each of its results.
+ */
+export function toMultiStatusXml(response: MultiStatus): string {
+	const responses = response.results.map(({ id, response: result }) => {
+		const description = result.toJSON().message
+		return `<D:response><D:href>${escapeXml(id)}</D:href><D:status>HTTP/1.1 ${result.statusCode} ${escapeXml(result.status)}</D:status><D:responsedescription>${escapeXml(description)}</D:responsedescription></D:response>`
+	})
+	return `<?xml version="1.0" encoding="UTF-8"?><D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`
+}
+
+function toXmlDocument(response: HttpResponse): string {
+	if (response instanceof MultiStatus && response.results.length > 0) {
+		return toMultiStatusXml(response)
+	}
+	const members = representation(response) as { [name: string]: unknown }
+	const [root, namespace] = response instanceof HttpError ? ['problem', ' xmlns="urn:ietf:rfc:7807"'] : ['response', '']
+	const children = Object.keys(members)
+		.map(name => toXml(name, members[name]))
+		.join('')
+	return `<?xml version="1.0" encoding="UTF-8"?><${root}${namespace}>${children}</${root}>`
+}
+
+/**
+ * Writes errors in the XML vocabulary of RFC 7807 as `application/problem+xml`, multi-status responses in that of WebDAV and other responses as a `<response>` element.
+ */
+export const xml: Serializer = {
+	mediaType: 'application/xml',
+	contentType: response => (response instanceof HttpError ? PROBLEM_XML : 'application/xml'),
+	serialize: toXmlDocument,
+}
+
+export const problemXml: Serializer = {
+	mediaType: PROBLEM_XML,
+	supports: response => response instanceof HttpError,
+	serialize: toXmlDocument,
+}
+
+/**
+ * The serializers used by `renderFor`, in order of preference: errors default to problem details, anything else to JSON.
+ */
+export const serializers: Serializer[] = [problemJson, json, problemXml, xml, text]
+
+// Adds Accept to the Vary header the response may already have, under whatever case it was set with
+function varyOnAccept(headers: ResponseHeaders): ResponseHeaders {
+	const vary = findHeader(headers, 'Vary')
+	const fields = vary === undefined ? [] : vary.split(',').map(field => field.trim()).filter(field => field !== '')
+	const merged: ResponseHeaders = {}
+	for (const name of Object.keys(headers)) {
+		if (name.toLowerCase() !== 'vary') {
+			merged[name] = headers[name]
+		}
+	}
+	const covered = fields.some(field => field === '*' || field.toLowerCase() === 'accept')
+	merged.Vary = (covered ? fields : fields.concat('Accept')).join(', ')
+	return merged
+}
+
+/**
+ * Renders a response in the format its client accepts, adding `Accept` to its Vary header.
+ * Responses without a body, with a Content-Type of their own or with bytes as their body are rendered as they are. When none of the formats is acceptable,
+ * errors are still sent in their default format while other responses are replaced by a `NotAcceptable`.
+ *
+ * writeRendered(res, renderFor(response, req.headers.accept)) // with writeRendered from http-responses-ts/dist/node
+ */
+export function renderFor(response: HttpResponse, accept: string | undefined, available: Serializer[] = serializers): RenderedResponse {
+	const rendered = response.render()
+	if (rendered.body === undefined || isBytes(rendered.body) || response.getHeader('Content-Type') !== undefined) {
+		return rendered
+	}
+	const candidates = available.filter(serializer => !serializer.supports || serializer.supports(response))
+	const offers = candidates.map(candidate => candidate.mediaType)
+	const serializer = candidates[offers.indexOf(negotiate(accept, offers) as string)]
+	if (!serializer) {
+		if (response instanceof HttpError || candidates.length === 0) {
+			return { ...rendered, headers: varyOnAccept(rendered.headers) }
+		}
+		return renderFor(new NotAcceptable(`Acceptable media types are ${offers.join(', ')}`), undefined, available)
+	}
+	return {
+		...rendered,
+		headers: { ...varyOnAccept(rendered.headers), 'Content-Type': `${serializer.contentType ? serializer.contentType(response) : serializer.mediaType}; charset=utf-8` },
+		body: serializer.serialize(response),
+	}
+}
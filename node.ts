@@ -0,0 +1,113 @@
+import { AdapterOptions, HttpResponse, InternalServerError, RenderedResponse, fromError, fromRendered, toResponseHeaders } from './index'
+
+/**
+ * The parts of a Node `http.ServerResponse` the adapter relies on. Express responses satisfy it too.
+ */
+export interface ServerResponseLike {
+	headersSent: boolean
+	statusCode: number
+	statusMessage: string
+	setHeader(name: string, value: string): void
+	end(body?: string | Uint8Array): void
+	destroy?(error?: Error): void
+}
+
+/**
+ * The parts of a Node `http.IncomingMessage` the adapter relies on, as passed to the callback of `http.request`.
+ */
+export interface IncomingMessageLike {
+	statusCode?: number
+	statusMessage?: string
+	headers: { [name: string]: unknown }
+	setEncoding(encoding: string): unknown
+	on(event: 'data', listener: (chunk: string) => void): unknown
+	on(event: 'end', listener: () => void): unknown
+	on(event: 'error', listener: (error: Error) => void): unknown
+}
+
+/**
+ * Reads the response to an `http.request` into the matching response class, keeping its headers and unpacking problem details or JSON bodies.
+ * Errors emitted by the request itself should be converted with `fromNetworkError`.
+ */
+export function fromIncomingMessage(message: IncomingMessageLike): Promise<HttpResponse> {
+	return new Promise((resolve, reject) => {
+		let body = ''
+		message.setEncoding('utf8')
+		message.on('data', chunk => {
+			body += chunk
+		})
+		message.on('error', reject)
+		message.on('end', () => {
+			const headers = toResponseHeaders(message.headers)
+			resolve(fromRendered({ statusCode: message.statusCode || 0, status: message.statusMessage || '', headers, body }))
+		})
+	})
+}
+
+/**
+ * Writes a response to a Node `http.ServerResponse`, using its `status` as the reason phrase of the status line.
+ */
+export function writeResponse(res: ServerResponseLike, response: HttpResponse): void {
+	writeRendered(res, response.render())
+}
+
+/**
+ * Writes a response that is already rendered, e.g. in the format the client accepts:
+ *
+ * writeRendered(res, renderFor(response, req.headers.accept))
+ */
+export function writeRendered(res: ServerResponseLike, rendered: RenderedResponse): void {
+	const { statusCode, status, headers, body } = rendered
+	res.statusCode = statusCode
+	res.statusMessage = status
+	for (const name of Object.keys(headers)) {
+		res.setHeader(name, headers[name])
+	}
+	res.end(body)
+}
+
+/**
+ * Wraps a request listener so that the response it returns, resolves with or throws is written. Anything else thrown becomes an `InternalServerError`,
+ * and so does a response that fails to render.
+ *
+ * http.createServer(handle(async req => new Success({ body: await users.list() })))
+ */
+export function handle<TRequest>(
+	handler: (req: TRequest, res: ServerResponseLike) => HttpResponse | void | Promise<HttpResponse | void>,
+	options: AdapterOptions = {},
+) {
+	return (req: TRequest, res: ServerResponseLike) => {
+		new Promise<HttpResponse | void>(resolve => resolve(handler(req, res)))
+			.catch(error => {
+				if (!(error instanceof HttpResponse) && options.onError) {
+					options.onError(error)
+				}
+				return fromError(error)
+			})
+			.then(response => {
+				if (response instanceof HttpResponse && !res.headersSent) {
+					writeResponse(res, response)
+				}
+			})
+			.catch(error => {
+				if (options.onError) {
+					options.onError(error)
+				}
+				fail(res, error)
+			})
+	}
+}
+
+// Writing failed, e.g. on a body JSON can't serialize, so the request gets a bare 500 or, once the status line is out, a closed connection
+function fail(res: ServerResponseLike, error: unknown): void {
+	if (!res.headersSent) {
+		try {
+			return writeResponse(res, new InternalServerError({ cause: error }))
+		} catch (e) {
+			// Falls through to destroying the response
+		}
+	}
+	if (res.destroy) {
+		res.destroy()
+	}
+}
@@ -0,0 +1,198 @@
+import { HttpError, HttpResponse, PROBLEM_JSON, ResponseClass, buildResponse, requiredHeaderExamples } from './index'
+
+/**
+ * An OpenAPI 3 schema object. Schemas are passed through as they are, so any keyword is accepted.
+ */
+export interface SchemaObject {
+	[keyword: string]: unknown
+}
+
+export interface ReferenceObject {
+	$ref: string
+}
+
+export interface HeaderObject {
+	description?: string
+	required?: boolean
+	schema: SchemaObject
+}
+
+export interface ResponseObject {
+	description: string
+	headers?: { [name: string]: HeaderObject }
+	content?: { [mediaType: string]: { schema: SchemaObject | ReferenceObject } }
+}
+
+export interface ComponentsObject {
+	responses: { [name: string]: ResponseObject }
+	schemas: { [name: string]: SchemaObject }
+}
+
+export interface OperationObject {
+	responses?: { [statusCode: string]: ResponseObject | ReferenceObject }
+	[field: string]: unknown
+}
+
+/**
+ * Documents a response class. Classes can also carry their description and body schema as static `description` and `schema` members.
+ */
+export interface ResponseDocumentation {
+	response: ResponseClass
+	/** The component name. Defaults to the class name. */
+	name?: string
+	/** Defaults to the class' own static `description`, which pre-defined classes take from their documentation, then to the message it's built with by default */
+	description?: string
+	/** The schema of the `body` of successful responses, or of the extension members of errors */
+	schema?: SchemaObject
+}
+
+interface DocumentedClass extends ResponseClass {
+	description?: string
+	schema?: SchemaObject
+}
+
+const headerObjects: { [name: string]: { description: string; schema: SchemaObject } } = {
+	Location: { description: 'The URL of the resource', schema: { type: 'string', format: 'uri-reference', example: requiredHeaderExamples.Location } },
+	Allow: { description: 'The methods the resource supports', schema: { type: 'string', example: requiredHeaderExamples.Allow } },
+	'WWW-Authenticate': { description: 'How to authenticate to access the resource', schema: { type: 'string', example: requiredHeaderExamples['WWW-Authenticate'] } },
+	'Proxy-Authenticate': { description: 'How to authenticate to the proxy', schema: { type: 'string', example: requiredHeaderExamples['Proxy-Authenticate'] } },
+	Upgrade: { description: 'The protocols the client must switch to', schema: { type: 'string', example: requiredHeaderExamples.Upgrade } },
+	'Retry-After': { description: 'How long to wait before making a new request, in seconds or as an HTTP date', schema: { type: 'string' } },
+	'RateLimit-Limit': { description: 'How many requests the quota allows', schema: { type: 'integer' } },
+	'RateLimit-Remaining': { description: 'How many requests are left in the quota', schema: { type: 'integer' } },
+	'RateLimit-Reset': { description: 'Seconds until the quota resets', schema: { type: 'integer' } },
+}
+
+// The headers the pre-defined classes send, and whether they always do
+const headersByStatusCode: { [statusCode: number]: { [name: string]: boolean } } = {
+	201: { Location: false },
+	301: { Location: true },
+	302: { Location: true },
+	303: { Location: true },
+	307: { Location: true },
+	308: { Location: true },
+	401: { 'WWW-Authenticate': true },
+	405: { Allow: true },
+	407: { 'Proxy-Authenticate': true },
+	426: { Upgrade: true },
+	429: { 'Retry-After': false, 'RateLimit-Limit': false, 'RateLimit-Remaining': false, 'RateLimit-Reset': false },
+	503: { 'Retry-After': false },
+}
+
+/**
+ * The schemas referenced by the generated responses.
+ */
+export const schemas: { [name: string]: SchemaObject } = {
+	ProblemDetails: {
+		type: 'object',
+		description: 'An RFC 7807 problem details object',
+		properties: {
+			type: { type: 'string', format: 'uri-reference', default: 'about:blank' },
+			title: { type: 'string' },
+			status: { type: 'integer' },
+			detail: { type: 'string' },
+			instance: { type: 'string', format: 'uri-reference' },
+		},
+		required: ['type', 'title', 'status'],
+		additionalProperties: true,
+	},
+	FieldViolation: {
+		type: 'object',
+		properties: {
+			path: { type: 'string', description: 'A JSON pointer to the invalid field' },
+			code: { type: 'string' },
+			message: { type: 'string' },
+		},
+		required: ['path', 'code', 'message'],
+	},
+	ResponseEnvelope: {
+		type: 'object',
+		properties: {
+			statusCode: { type: 'integer' },
+			status: { type: 'string' },
+			message: { type: 'string' },
+			body: {},
+		},
+		required: ['statusCode', 'status', 'message'],
+	},
+}
+
+function documentation(entry: ResponseClass | ResponseDocumentation): ResponseDocumentation {
+	return typeof entry === 'function' ? { response: entry } : entry
+}
+
+function bodySchema(response: HttpResponse, schema: SchemaObject | undefined): SchemaObject {
+	const { statusCode, status, type } = response
+	if (response instanceof HttpError) {
+		const properties: SchemaObject = { status: { type: 'integer', enum: [statusCode] }, title: { type: 'string', example: status } }
+		if (type) {
+			properties.type = { type: 'string', enum: [type] }
+		}
+		if ('violations' in response) {
+			properties.errors = { type: 'array', items: { $ref: '#/components/schemas/FieldViolation' } }
+		}
+		return { allOf: [{ $ref: '#/components/schemas/ProblemDetails' }, { type: 'object', properties }, ...(schema ? [schema] : [])] }
+	}
+	const properties: SchemaObject = { statusCode: { type: 'integer', enum: [statusCode] }, status: { type: 'string', example: status } }
+	if (schema) {
+		properties.body = schema
+	}
+	return { allOf: [{ $ref: '#/components/schemas/ResponseEnvelope' }, { type: 'object', properties }] }
+}
+
+function hasBody(statusCode: number): boolean {
+	return statusCode >= 200 && statusCode !== 204 && statusCode !== 205 && statusCode !== 304
+}
+
+/**
+ * Generates the `components.responses` and `components.schemas` entries documenting response classes, pre-defined or custom.
+ * Each class gets a response and, when it has a body, a schema of the same name: problem details for errors and the response envelope otherwise.
+ *
+ * const components = generateComponents([BadRequest, NotFound, { response: CreditCardExpired, description: 'The card on file has expired' }])
+ */
+export function generateComponents(entries: Array<ResponseClass | ResponseDocumentation>): ComponentsObject {
+	const components: ComponentsObject = { responses: {}, schemas: { ...schemas } }
+	for (const entry of entries) {
+		const { response: ResponseClass, ...options } = documentation(entry)
+		const documented: DocumentedClass = ResponseClass
+		const response = buildResponse(ResponseClass)
+		const name = options.name || ResponseClass.name
+		// A subclass inherits the static members of its parent, whose description doesn't fit it
+		const description = Object.prototype.hasOwnProperty.call(documented, 'description') ? documented.description : undefined
+		const object: ResponseObject = { description: options.description || description || response.message }
+
+		const documentedHeaders: { [name: string]: boolean } = { ...headersByStatusCode[response.statusCode] }
+		for (const header of Object.keys(response.headers)) {
+			documentedHeaders[header] = true
+		}
+		if (Object.keys(documentedHeaders).length > 0) {
+			object.headers = {}
+			for (const header of Object.keys(documentedHeaders)) {
+				object.headers[header] = { ...(headerObjects[header] || { schema: { type: 'string' } }), required: documentedHeaders[header] }
+			}
+		}
+
+		if (hasBody(response.statusCode)) {
+			components.schemas[name] = bodySchema(response, options.schema || documented.schema)
+			const mediaType = response instanceof HttpError ? PROBLEM_JSON : 'application/json'
+			object.content = { [mediaType]: { schema: { $ref: `#/components/schemas/${name}` } } }
+		}
+		components.responses[name] = object
+	}
+	return components
+}
+
+/**
+ * Returns a copy of an operation that references the generated responses of the given classes under their status codes.
+ * Pass the same `name`s as to `generateComponents` for the classes documented under another name.
+ *
+ * paths['/users/{id}'].get = withResponses({ operationId: 'getUser' }, [Success, NotFound])
+ */
+export function withResponses(operation: OperationObject, entries: Array<ResponseClass | ResponseDocumentation>): OperationObject {
+	const responses: { [statusCode: string]: ResponseObject | ReferenceObject } = { ...operation.responses }
+	for (const entry of entries) {
+		const { response: ResponseClass, name } = documentation(entry)
+		responses[String(buildResponse(ResponseClass).statusCode)] = { $ref: `#/components/responses/${name || ResponseClass.name}` }
+	}
+	return { ...operation, responses }
+}
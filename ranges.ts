@@ -0,0 +1,162 @@
+import { HttpResponse, PartialContent, RequestedRangeNotSatisfiable, ResponseHeaders, Success, findHeader, toResponseHeaders } from './index'
+
+/**
+ * A range of bytes, both ends included.
+ */
+export interface ByteRange {
+	start: number
+	end: number
+}
+
+export interface RangeOptions {
+	/** The content type of the whole representation. Defaults to application/octet-stream. */
+	contentType?: string
+	/** The request method, as ranges only apply to GET requests. Defaults to GET. */
+	method?: string
+	/** The strong entity tag of the representation, which If-Range is compared with */
+	etag?: string
+	/** The modification date of the representation, which If-Range is compared with */
+	lastModified?: Date
+	/** Headers sent along with every response, such as caching headers */
+	headers?: ResponseHeaders
+	/** The boundary of multipart/byteranges bodies. Defaults to a random one. */
+	boundary?: string
+}
+
+/**
+ * Parses a Range header against the length of a representation, coalescing the ranges that overlap or touch.
+ * Returns undefined when the header is malformed or uses another unit than bytes, in which case it must be ignored,
+ * and an empty list when none of the ranges can be satisfied.
+ *
+ * parseRange('bytes=0-99, -100', 1000) // [{ start: 0, end: 99 }, { start: 900, end: 999 }]
+ */
+export function parseRange(header: string, length: number): ByteRange[] | undefined {
+	const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header)
+	if (!match) {
+		return undefined
+	}
+	const ranges: ByteRange[] = []
+	for (const spec of match[1].split(',')) {
+		const bounds = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec)
+		if (!bounds || (bounds[1] === '' && bounds[2] === '')) {
+			return undefined
+		}
+		if (bounds[1] === '') {
+			// A suffix range, such as -500 for the last 500 bytes
+			const suffix = Number(bounds[2])
+			if (suffix > 0 && length > 0) {
+				ranges.push({ start: Math.max(0, length - suffix), end: length - 1 })
+			}
+			continue
+		}
+		const start = Number(bounds[1])
+		const end = bounds[2] === '' ? Infinity : Number(bounds[2])
+		if (end < start) {
+			return undefined
+		}
+		if (start < length) {
+			ranges.push({ start, end: Math.min(end, length - 1) })
+		}
+	}
+	return coalesce(ranges)
+}
+
+function coalesce(ranges: ByteRange[]): ByteRange[] {
+	const sorted = ranges.slice().sort((a, b) => a.start - b.start)
+	const coalesced: ByteRange[] = []
+	for (const range of sorted) {
+		const last = coalesced[coalesced.length - 1]
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end)
+		} else {
+			coalesced.push({ ...range })
+		}
+	}
+	return coalesced
+}
+
+/**
+ * Formats the Content-Range header of a range, or of an unsatisfiable request when no range is given.
+ *
+ * contentRange(1000, { start: 0, end: 99 }) // 'bytes 0-99/1000'
+ * contentRange(1000) // 'bytes *\/1000'
+ */
+export function contentRange(length: number, range?: ByteRange): string {
+	return range ? `bytes ${range.start}-${range.end}/${length}` : `bytes */${length}`
+}
+
+// If-Range only lets the range through when the representation hasn't changed, compared with a strong validator
+function ifRangeMatches(ifRange: string, options: RangeOptions): boolean {
+	if (/^(W\/)?"/.test(ifRange)) {
+		return options.etag !== undefined && !ifRange.startsWith('W/') && ifRange === options.etag
+	}
+	const date = Date.parse(ifRange)
+	return options.lastModified !== undefined && !isNaN(date) && Math.floor(options.lastModified.getTime() / 1000) * 1000 === date
+}
+
+function randomBoundary(): string {
+	return Math.random()
+		.toString(36)
+		.slice(2)
+		.concat(Date.now().toString(36))
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+	const joined = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+	let offset = 0
+	for (const chunk of chunks) {
+		joined.set(chunk, offset)
+		offset += chunk.length
+	}
+	return joined
+}
+
+/**
+ * Answers a request for a representation held in memory, honoring its Range and If-Range headers:
+ * - `Success` with the whole content when there's no usable Range header or If-Range doesn't match,
+ * - `PartialContent` with a Content-Range header for a single range, or a multipart/byteranges body for several,
+ * - `RequestedRangeNotSatisfiable` with a `Content-Range: bytes *\/length` header when no range can be satisfied.
+ *
+ * Ranges are counted in bytes: binary content is passed as a `Uint8Array` or `Buffer`, and strings are encoded as UTF-8 first, so their content type should say so.
+ * The bodies are bytes, which the adapters send as they are. Larger files are better streamed with `parseRange` and `contentRange`.
+ */
+export function rangeResponse(requestHeaders: { [name: string]: unknown }, content: string | Uint8Array, options: RangeOptions = {}): HttpResponse<Uint8Array> {
+	const headers = toResponseHeaders(requestHeaders)
+	const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content
+	const contentType = options.contentType || 'application/octet-stream'
+	const common: ResponseHeaders = { ...options.headers, 'Accept-Ranges': 'bytes' }
+	const whole = () => new Success<Uint8Array>({ headers: { ...common, 'Content-Type': contentType }, body: bytes })
+
+	const range = findHeader(headers, 'range')
+	const ifRange = findHeader(headers, 'if-range')
+	if ((options.method || 'GET').toUpperCase() !== 'GET' || range === undefined || (ifRange !== undefined && !ifRangeMatches(ifRange, options))) {
+		return whole()
+	}
+	const ranges = parseRange(range, bytes.length)
+	if (!ranges) {
+		return whole()
+	}
+	if (ranges.length === 0) {
+		return new RequestedRangeNotSatisfiable<Uint8Array>({ headers: { ...common, 'Content-Range': contentRange(bytes.length) } })
+	}
+	if (ranges.length === 1) {
+		const [only] = ranges
+		return new PartialContent<Uint8Array>({
+			headers: { ...common, 'Content-Type': contentType, 'Content-Range': contentRange(bytes.length, only) },
+			body: bytes.subarray(only.start, only.end + 1),
+		})
+	}
+	const boundary = options.boundary || randomBoundary()
+	const encoder = new TextEncoder()
+	const parts = ranges.map(part =>
+		concat([
+			encoder.encode(`--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: ${contentRange(bytes.length, part)}\r\n\r\n`),
+			bytes.subarray(part.start, part.end + 1),
+			encoder.encode('\r\n'),
+		]),
+	)
+	return new PartialContent<Uint8Array>({
+		headers: { ...common, 'Content-Type': `multipart/byteranges; boundary=${boundary}` },
+		body: concat([...parts, encoder.encode(`--${boundary}--\r\n`)]),
+	})
+}
@@ -0,0 +1,165 @@
+import { RateLimit, TooManyRequests } from './index'
+import { Clock, systemClock } from './retry'
+
+/**
+ * The state of a token bucket, as kept by a store.
+ */
+export interface BucketState {
+	tokens: number
+	/** When the tokens were last counted, in milliseconds */
+	updatedAt: number
+}
+
+/**
+ * The size of a token bucket and how many tokens are added back per second.
+ */
+export interface BucketSize {
+	capacity: number
+	refillRate: number
+}
+
+/**
+ * Where limiters keep their counters. Implement it over Redis or any shared backend to limit requests across processes.
+ * Both operations must be atomic, e.g. INCRBY followed by PEXPIRE NX in a Redis transaction for `increment`, and a Lua script applying `takeTokens` for `take`.
+ */
+export interface RateLimitStore {
+	/** Adds to a counter, creating it with a time to live in milliseconds when it doesn't exist or has expired */
+	increment(key: string, amount: number, ttl: number): Promise<{ count: number; expiresAt: number }>
+	/** Refills a bucket and takes `cost` tokens from it when it holds enough, creating it full when it doesn't exist or has expired */
+	take(key: string, cost: number, size: BucketSize): Promise<{ tokens: number; taken: boolean }>
+}
+
+/**
+ * Refills a bucket for the time elapsed since it was last counted, then takes `cost` tokens from it when it holds enough.
+ * Also returns how long the bucket must be kept, in milliseconds, which is until it is full again.
+ */
+export function takeTokens(state: BucketState | undefined, cost: number, size: BucketSize, now: number): { state: BucketState; taken: boolean; ttl: number } {
+	const { capacity, refillRate } = size
+	const previous = state || { tokens: capacity, updatedAt: now }
+	const available = Math.min(capacity, previous.tokens + ((now - previous.updatedAt) / 1000) * refillRate)
+	const taken = available >= cost
+	const tokens = taken ? available - cost : available
+	return { state: { tokens, updatedAt: now }, taken, ttl: ((capacity - tokens) / refillRate) * 1000 }
+}
+
+/**
+ * Counts requests for a key and either lets them through with the state of the quota, or refuses them with a `TooManyRequests` carrying the RateLimit and Retry-After headers.
+ */
+export interface RateLimiter {
+	consume(key: string, cost?: number): Promise<RateLimit | TooManyRequests>
+}
+
+function removeExpired(entries: Map<string, { expiresAt: number }>, now: number): void {
+	for (const [key, { expiresAt }] of entries) {
+		if (expiresAt <= now) {
+			entries.delete(key)
+		}
+	}
+}
+
+/**
+ * A store keeping counters in the memory of the process, which suits a single instance.
+ * Expired entries are swept out by the calls themselves, at most once per `sweepInterval` milliseconds (a minute by default), so no timer keeps the process running.
+ * Each operation reads and writes its entry without awaiting anything in between, so concurrent calls for a key run one after the other.
+ */
+export class MemoryStore implements RateLimitStore {
+	private readonly counters = new Map<string, { count: number; expiresAt: number }>()
+	private readonly buckets = new Map<string, { state: BucketState; expiresAt: number }>()
+	private sweptAt: number
+
+	constructor(private readonly clock: Pick<Clock, 'now'> = systemClock, private readonly sweepInterval: number = 60000) {
+		this.sweptAt = clock.now()
+	}
+
+	/** How many entries are kept, including the expired ones not swept out yet */
+	public get size(): number {
+		return this.counters.size + this.buckets.size
+	}
+
+	public async increment(key: string, amount: number, ttl: number) {
+		const now = this.sweep()
+		let counter = this.counters.get(key)
+		if (!counter || counter.expiresAt <= now) {
+			counter = { count: 0, expiresAt: now + ttl }
+			this.counters.set(key, counter)
+		}
+		counter.count += amount
+		return { ...counter }
+	}
+
+	public async take(key: string, cost: number, size: BucketSize) {
+		const now = this.sweep()
+		const entry = this.buckets.get(key)
+		const { state, taken, ttl } = takeTokens(entry && entry.expiresAt > now ? entry.state : undefined, cost, size, now)
+		this.buckets.set(key, { state, expiresAt: now + ttl })
+		return { tokens: state.tokens, taken }
+	}
+
+	// Keys such as client addresses often never come back, so their entries would otherwise be kept forever
+	private sweep(): number {
+		const now = this.clock.now()
+		if (now - this.sweptAt >= this.sweepInterval) {
+			this.sweptAt = now
+			removeExpired(this.counters, now)
+			removeExpired(this.buckets, now)
+		}
+		return now
+	}
+}
+
+export interface FixedWindowOptions {
+	/** How many requests are allowed per window */
+	limit: number
+	/** The length of a window in milliseconds */
+	window: number
+	store?: RateLimitStore
+	clock?: Pick<Clock, 'now'>
+}
+
+/**
+ * Allows `limit` requests per key in consecutive windows of fixed length.
+ *
+ * const limiter = fixedWindow({ limit: 100, window: 60000 })
+ */
+export function fixedWindow(options: FixedWindowOptions): RateLimiter {
+	const { limit, window, clock = systemClock } = options
+	const store = options.store || new MemoryStore(clock)
+	return {
+		async consume(key, cost = 1) {
+			const { count, expiresAt } = await store.increment(key, cost, window)
+			const reset = Math.max(0, Math.ceil((expiresAt - clock.now()) / 1000))
+			const quota = { limit, remaining: Math.max(0, limit - count), reset }
+			return count > limit ? new TooManyRequests({ message: 'Rate limit exceeded', ...quota }) : quota
+		},
+	}
+}
+
+export interface TokenBucketOptions {
+	/** How many tokens the bucket holds, which is the largest burst of requests allowed */
+	capacity: number
+	/** How many tokens are added back per second */
+	refillRate: number
+	store?: RateLimitStore
+	clock?: Pick<Clock, 'now'>
+}
+
+/**
+ * Allows bursts of up to `capacity` requests per key, refilled at a steady rate.
+ *
+ * const limiter = tokenBucket({ capacity: 20, refillRate: 5 })
+ */
+export function tokenBucket(options: TokenBucketOptions): RateLimiter {
+	const { capacity, refillRate, clock = systemClock } = options
+	const store = options.store || new MemoryStore(clock)
+	return {
+		async consume(key, cost = 1) {
+			const { tokens, taken } = await store.take(key, cost, { capacity, refillRate })
+			const reset = Math.ceil((capacity - tokens) / refillRate)
+			const quota = { limit: capacity, remaining: Math.floor(tokens), reset }
+			if (taken) {
+				return quota
+			}
+			return new TooManyRequests({ message: 'Rate limit exceeded', ...quota, retryAfter: Math.ceil((cost - tokens) / refillRate) })
+		},
+	}
+}
@@ -0,0 +1,111 @@
+import { BadGateway, GatewayTimeout, HttpResponse, RequestTimeout, ServiceUnavailable, TooManyRequests } from './index'
+
+/**
+ * The source of time of `retry`, which tests can replace to run without waiting.
+ */
+export interface Clock {
+	/** The current time in milliseconds */
+	now(): number
+	sleep(milliseconds: number): Promise<void>
+}
+
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	sleep: milliseconds => new Promise(resolve => setTimeout(resolve, milliseconds)),
+}
+
+export interface RetryOptions {
+	/** How many times the operation is retried after its first attempt. Defaults to 3. */
+	retries?: number
+	/** The delay before the first retry in milliseconds, doubled on every retry. Defaults to 100. */
+	baseDelay?: number
+	/** The longest delay between two attempts in milliseconds, Retry-After included. Defaults to 30 seconds. */
+	maxDelay?: number
+	/** How long all attempts may take in milliseconds. No retry is made past it. Defaults to 1 minute. */
+	budget?: number
+	/** Decides which responses are worth retrying. Defaults to `isRetryable`. */
+	retryable?: (response: HttpResponse) => boolean
+	/** Called before waiting for a retry */
+	onRetry?: (response: HttpResponse, attempt: number, delay: number) => void
+	clock?: Clock
+	/** Returns a number in [0, 1) used to spread the backoff delays. Defaults to `Math.random`. */
+	random?: () => number
+}
+
+/**
+ * Tells whether a response reports a transient failure that may go away on its own:
+ * `RequestTimeout`, `TooManyRequests`, `BadGateway`, `ServiceUnavailable` and `GatewayTimeout`.
+ */
+export function isRetryable(response: HttpResponse): boolean {
+	return [RequestTimeout, TooManyRequests, BadGateway, ServiceUnavailable, GatewayTimeout].some(ResponseClass => response instanceof ResponseClass)
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date, into a delay in milliseconds.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+	if (!value) {
+		return undefined
+	}
+	if (/^\s*\d+\s*$/.test(value)) {
+		return Number(value) * 1000
+	}
+	const date = Date.parse(value)
+	return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Computes how long to wait before a retry: the response's Retry-After when it has one, otherwise an exponential backoff with full jitter.
+ */
+export function retryDelay(response: HttpResponse, attempt: number, options: RetryOptions = {}): number {
+	const { baseDelay = 100, maxDelay = 30000, clock = systemClock, random = Math.random } = options
+	const retryAfter = parseRetryAfter(response.getHeader('Retry-After'), clock.now())
+	if (retryAfter !== undefined) {
+		return retryAfter
+	}
+	return Math.floor(random() * Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1)))
+}
+
+/**
+ * Runs an operation until it succeeds, retrying it when it returns or throws a retryable response.
+ * The last response is returned or thrown as it was once retries are exhausted, when the budget would be exceeded
+ * or when the server asks to come back later than `maxDelay`. Anything thrown that isn't a response is rethrown immediately.
+ *
+ * const user = await retry(() => fetchResponse(`${api}/users/42`), { retries: 5 })
+ */
+export async function retry<T>(operation: (attempt: number) => T | Promise<T>, options: RetryOptions = {}): Promise<T> {
+	const { retries = 3, maxDelay = 30000, budget = 60000, retryable = isRetryable, clock = systemClock } = options
+	const start = clock.now()
+
+	// The delay before the next attempt, or undefined when the outcome is final
+	const nextDelay = (outcome: unknown, attempt: number) => {
+		if (!(outcome instanceof HttpResponse) || !retryable(outcome) || attempt > retries) {
+			return undefined
+		}
+		const delay = retryDelay(outcome, attempt, options)
+		if (delay > maxDelay || clock.now() - start + delay > budget) {
+			return undefined
+		}
+		if (options.onRetry) {
+			options.onRetry(outcome, attempt, delay)
+		}
+		return delay
+	}
+
+	for (let attempt = 1; ; attempt++) {
+		let delay: number | undefined
+		try {
+			const result = await operation(attempt)
+			delay = nextDelay(result, attempt)
+			if (delay === undefined) {
+				return result
+			}
+		} catch (error) {
+			delay = nextDelay(error, attempt)
+			if (delay === undefined) {
+				throw error
+			}
+		}
+		await clock.sleep(delay)
+	}
+}
@@ -0,0 +1,19 @@
+import { formatChallenges, parseChallenges } from '../index'
+import { basic, digest } from '../auth'
+
+describe('formatChallenges', () => {
+	test('leaves the tokens of RFC 7616 unquoted in Digest challenges', () => {
+		const header = formatChallenges(digest({ realm: 'api', nonce: 'n', stale: true, charset: 'UTF-8', userhash: true }))
+		expect(header).toBe('Digest realm="api", qop="auth", nonce="n", algorithm=SHA-256, stale=true, charset=UTF-8, userhash=true')
+	})
+
+	test('quotes every parameter of other schemes, as in the examples of RFC 7617', () => {
+		expect(formatChallenges(basic({ realm: 'api', charset: 'UTF-8' }))).toBe('Basic realm="api", charset="UTF-8"')
+		expect(formatChallenges({ scheme: 'Custom', params: { algorithm: 'SHA-256' } })).toBe('Custom algorithm="SHA-256"')
+	})
+
+	test('formats challenges that parse back to themselves', () => {
+		const challenge = digest({ realm: 'a "quoted" realm', nonce: 'n', userhash: false })
+		expect(parseChallenges(formatChallenges(challenge))).toEqual([challenge])
+	})
+})
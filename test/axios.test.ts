@@ -0,0 +1,55 @@
+import { BadGateway, GatewayTimeout, NotFound, Success, Unauthorized } from '../index'
+import { AxiosInstanceLike, AxiosResponseLike, fromAxiosError, fromAxiosResponse, intercept } from '../axios'
+
+describe('fromAxiosResponse', () => {
+	test('unpacks the JSON axios already parsed', () => {
+		const response = fromAxiosResponse({ status: 200, statusText: 'OK', headers: {}, data: { id: 1 } })
+		expect(response).toBeInstanceOf(Success)
+		expect(response.body).toEqual({ id: 1 })
+	})
+
+	test('reads problem details and flattens headers', () => {
+		const response = fromAxiosResponse({
+			status: 401,
+			statusText: 'Unauthorized',
+			headers: { 'content-type': 'application/problem+json', 'www-authenticate': 'Bearer', 'set-cookie': ['a=1', 'b=2'] },
+			data: { status: 401, title: 'Unauthorized', detail: 'Token expired' },
+		})
+		expect(response).toBeInstanceOf(Unauthorized)
+		expect(response.message).toBe('Token expired')
+		expect(response.getHeader('Set-Cookie')).toBe('a=1, b=2')
+	})
+})
+
+describe('fromAxiosError', () => {
+	test('uses the upstream response when there is one', () => {
+		expect(fromAxiosError({ response: { status: 404, statusText: 'Not Found', headers: {}, data: '' } })).toBeInstanceOf(NotFound)
+	})
+
+	test('maps errors without a response like network errors', () => {
+		const error = Object.assign(new Error('timeout of 1000ms exceeded'), { code: 'ECONNABORTED' })
+		expect(fromAxiosError(error)).toBeInstanceOf(GatewayTimeout)
+		expect(fromAxiosError(new Error('socket hang up'))).toBeInstanceOf(BadGateway)
+	})
+})
+
+describe('intercept', () => {
+	test('makes an instance reject with response classes', async () => {
+		let onRejected: (error: unknown) => Promise<never> = Promise.reject
+		let onFulfilled: (response: AxiosResponseLike) => AxiosResponseLike = response => response
+		const instance: AxiosInstanceLike = {
+			interceptors: {
+				response: {
+					use: (fulfilled, rejected) => {
+						onFulfilled = fulfilled
+						onRejected = rejected
+					},
+				},
+			},
+		}
+		expect(intercept(instance)).toBe(instance)
+		const ok = { status: 200, statusText: 'OK', headers: {}, data: 'ok' }
+		expect(onFulfilled(ok)).toBe(ok)
+		await expect(onRejected({ response: { status: 404, statusText: 'Not Found', headers: {}, data: '' } })).rejects.toBeInstanceOf(NotFound)
+	})
+})
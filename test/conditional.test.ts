@@ -0,0 +1,73 @@
+import { NotModified, PreconditionFailed, PreconditionRequired } from '../index'
+import { evaluatePreconditions, parseETags } from '../conditional'
+
+const lastModified = new Date('2024-01-01T12:00:00.750Z')
+const resource = { etag: '"v2"', lastModified }
+const before = 'Mon, 01 Jan 2024 11:00:00 GMT'
+const same = 'Mon, 01 Jan 2024 12:00:00 GMT'
+
+describe('parseETags', () => {
+	test('lists strong and weak tags', () => {
+		expect(parseETags('"a", W/"b" ,"c,d"')).toEqual(['"a"', 'W/"b"', '"c,d"'])
+	})
+
+	test('recognizes the wildcard', () => {
+		expect(parseETags(' * ')).toBe('*')
+	})
+})
+
+describe('evaluatePreconditions', () => {
+	test('lets unconditional requests proceed', () => {
+		expect(evaluatePreconditions('PUT', {}, resource)).toBeUndefined()
+	})
+
+	test('fails when If-Match does not match strongly', () => {
+		expect(evaluatePreconditions('PUT', { 'if-match': '"v1"' }, resource)).toBeInstanceOf(PreconditionFailed)
+		expect(evaluatePreconditions('PUT', { 'If-Match': 'W/"v2"' }, resource)).toBeInstanceOf(PreconditionFailed)
+		expect(evaluatePreconditions('PUT', { 'if-match': '"v1", "v2"' }, resource)).toBeUndefined()
+	})
+
+	test('ignores If-Unmodified-Since when If-Match is present', () => {
+		expect(evaluatePreconditions('PUT', { 'if-match': '"v2"', 'if-unmodified-since': before }, resource)).toBeUndefined()
+		expect(evaluatePreconditions('PUT', { 'if-unmodified-since': before }, resource)).toBeInstanceOf(PreconditionFailed)
+	})
+
+	test('answers 304 to retrievals matching If-None-Match and 412 to other methods', () => {
+		const notModified = evaluatePreconditions('GET', { 'if-none-match': 'W/"v2"' }, resource, { headers: { 'Cache-Control': 'no-cache' } })
+		expect(notModified).toBeInstanceOf(NotModified)
+		expect(notModified!.headers).toEqual({ 'Cache-Control': 'no-cache', ETag: '"v2"', 'Last-Modified': lastModified.toUTCString() })
+		expect(evaluatePreconditions('HEAD', { 'if-none-match': '"v2"' }, resource)).toBeInstanceOf(NotModified)
+		expect(evaluatePreconditions('DELETE', { 'if-none-match': '"v2"' }, resource)).toBeInstanceOf(PreconditionFailed)
+		expect(evaluatePreconditions('GET', { 'if-none-match': '"v1"' }, resource)).toBeUndefined()
+	})
+
+	test('ignores If-Modified-Since when If-None-Match is present', () => {
+		expect(evaluatePreconditions('GET', { 'if-none-match': '"v1"', 'if-modified-since': same }, resource)).toBeUndefined()
+		expect(evaluatePreconditions('GET', { 'if-modified-since': same }, resource)).toBeInstanceOf(NotModified)
+	})
+
+	test('only answers If-Modified-Since on retrievals', () => {
+		expect(evaluatePreconditions('POST', { 'if-modified-since': same }, resource)).toBeUndefined()
+	})
+
+	test('matches the wildcard against whether the resource exists', () => {
+		expect(evaluatePreconditions('PUT', { 'if-match': '*' }, { exists: false })).toBeInstanceOf(PreconditionFailed)
+		expect(evaluatePreconditions('PUT', { 'if-none-match': '*' }, { exists: false })).toBeUndefined()
+		expect(evaluatePreconditions('PUT', { 'if-none-match': '*' }, resource)).toBeInstanceOf(PreconditionFailed)
+	})
+
+	test('truncates the modification date to the second', () => {
+		expect(evaluatePreconditions('PUT', { 'if-unmodified-since': same }, resource)).toBeUndefined()
+		expect(evaluatePreconditions('GET', { 'if-modified-since': before }, resource)).toBeUndefined()
+	})
+
+	test('ignores dates it can not parse', () => {
+		expect(evaluatePreconditions('PUT', { 'if-unmodified-since': 'yesterday' }, resource)).toBeUndefined()
+	})
+
+	test('requires unsafe requests to be conditional when asked to', () => {
+		expect(evaluatePreconditions('PATCH', {}, resource, { required: true })).toBeInstanceOf(PreconditionRequired)
+		expect(evaluatePreconditions('PATCH', { 'if-match': '"v2"' }, resource, { required: true })).toBeUndefined()
+		expect(evaluatePreconditions('GET', {}, resource, { required: true })).toBeUndefined()
+	})
+})
@@ -0,0 +1,13 @@
+const NodeEnvironment = require('jest-environment-node')
+
+// Node 18+ provides fetch, its classes and the text encoding ones globally, which the environment of Jest 24 doesn't pass on to tests
+class FetchEnvironment extends NodeEnvironment {
+	constructor(config, context) {
+		super(config, context)
+		for (const name of ['fetch', 'Request', 'Response', 'Headers', 'TextEncoder', 'TextDecoder']) {
+			this.global[name] = global[name]
+		}
+	}
+}
+
+module.exports = FetchEnvironment
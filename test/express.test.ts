@@ -0,0 +1,72 @@
+import { NotFound, Success } from '../index'
+import { NextFunction, errorHandler, handle } from '../express'
+import { serverResponse } from './fakes'
+
+// Passes what a handler throws to the error handler, as Express does with the next registered middleware
+function route(handler: Parameters<typeof handle>[0], onError?: (error: unknown) => void) {
+	const res = serverResponse()
+	const next = jest.fn<void, [unknown?]>(error => errorHandler({ onError })(error, {}, res, jest.fn()))
+	handle(handler)({}, res, next)
+	return { res, next }
+}
+
+describe('handle', () => {
+	test('writes the response a handler resolves with', async () => {
+		const { res } = route(async () => new Success({ body: { id: 1 }, headers: { 'Cache-Control': 'no-store' } }))
+		await res.finished
+		expect(res.statusCode).toBe(200)
+		expect(res.statusMessage).toBe('OK')
+		expect(res.headers).toMatchObject({ 'Cache-Control': 'no-store', 'Content-Type': 'application/json; charset=utf-8' })
+		expect(JSON.parse(res.body as string)).toMatchObject({ statusCode: 200, body: { id: 1 } })
+	})
+
+	test('passes what a handler throws on to the error handler', async () => {
+		const { res, next } = route(() => {
+			throw new NotFound('User 42 does not exist')
+		})
+		await res.finished
+		expect(next).toHaveBeenCalledWith(expect.any(NotFound))
+		expect(res.statusCode).toBe(404)
+		expect(res.headers['Content-Type']).toBe('application/problem+json; charset=utf-8')
+		expect(JSON.parse(res.body as string)).toMatchObject({ status: 404, detail: 'User 42 does not exist' })
+	})
+
+	test('leaves responses a handler wrote itself alone', async () => {
+		const res = serverResponse()
+		const next = jest.fn()
+		handle((_req, res) => res.end('done'))({}, res, next)
+		await res.finished
+		await Promise.resolve()
+		expect(res.body).toBe('done')
+		expect(next).not.toHaveBeenCalled()
+	})
+})
+
+describe('errorHandler', () => {
+	test('renders other errors as a 500 without their message', async () => {
+		const onError = jest.fn()
+		const error = new Error('Connection to db-1 lost')
+		const { res } = route(async () => Promise.reject(error), onError)
+		await res.finished
+		expect(onError).toHaveBeenCalledWith(error)
+		expect(res.statusCode).toBe(500)
+		expect(res.body).not.toContain('db-1')
+		expect(JSON.parse(res.body as string)).toMatchObject({ status: 500, detail: 'Internal Server Error' })
+	})
+
+	test('does not report responses to onError', () => {
+		const onError = jest.fn()
+		errorHandler({ onError })(new NotFound(), {}, serverResponse(), jest.fn())
+		expect(onError).not.toHaveBeenCalled()
+	})
+
+	test('hands the error back to Express once headers are sent', () => {
+		const res = serverResponse()
+		res.headersSent = true
+		const next: NextFunction = jest.fn()
+		const error = new NotFound()
+		errorHandler()(error, {}, res, next)
+		expect(next).toHaveBeenCalledWith(error)
+		expect(res.body).toBeUndefined()
+	})
+})
@@ -0,0 +1,38 @@
+import { ResponseHeaders } from '../index'
+import { ServerResponseLike } from '../node'
+
+export interface FakeServerResponse extends ServerResponseLike {
+	headers: ResponseHeaders
+	body?: string | Uint8Array
+	destroyed: boolean
+	/** Resolves once the response is ended or destroyed */
+	finished: Promise<void>
+}
+
+/**
+ * A Node `http.ServerResponse` that records what's written to it.
+ */
+export function serverResponse(): FakeServerResponse {
+	let finish: () => void = () => undefined
+	const res: FakeServerResponse = {
+		headersSent: false,
+		statusCode: 200,
+		statusMessage: '',
+		headers: {},
+		destroyed: false,
+		finished: new Promise<void>(resolve => (finish = resolve)),
+		setHeader: (name, value) => {
+			res.headers[name] = value
+		},
+		end: body => {
+			res.body = body
+			res.headersSent = true
+			finish()
+		},
+		destroy: () => {
+			res.destroyed = true
+			finish()
+		},
+	}
+	return res
+}
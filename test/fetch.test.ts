@@ -0,0 +1,79 @@
+import { NotFound, PROBLEM_JSON, ServiceUnavailable, Success } from '../index'
+import { fetchResponse, fromResponse, handle } from '../fetch'
+
+describe('handle', () => {
+	const request = new Request('http://localhost/users')
+
+	test('converts the response a handler resolves with', async () => {
+		const response = await handle(async () => new Success({ body: { id: 1 } }))(request)
+		expect(response.status).toBe(200)
+		expect(response.headers.get('Content-Type')).toBe('application/json; charset=utf-8')
+		expect(await response.json()).toMatchObject({ body: { id: 1 } })
+	})
+
+	test('passes Response objects through', async () => {
+		const response = new Response('ok')
+		expect(await handle(() => response)(request)).toBe(response)
+	})
+
+	test('converts thrown responses without reporting them', async () => {
+		const onError = jest.fn()
+		const response = await handle(() => Promise.reject(new NotFound()), { onError })(request)
+		expect(response.status).toBe(404)
+		expect(onError).not.toHaveBeenCalled()
+	})
+
+	test('answers 500 when a response fails to render', async () => {
+		const onError = jest.fn()
+		const cyclic: { [key: string]: unknown } = {}
+		cyclic.self = cyclic
+		const response = await handle(() => new Success({ body: { cyclic } }), { onError })(request)
+		expect(response.status).toBe(500)
+		expect(onError).toHaveBeenCalledWith(expect.any(TypeError))
+	})
+})
+
+describe('fromResponse', () => {
+	test('reads problem details into their class with the headers', async () => {
+		const upstream = new Response('{"status":404,"title":"Not Found","detail":"No user 42"}', { status: 404, headers: { 'Content-Type': PROBLEM_JSON, ETag: '"1"' } })
+		const response = await fromResponse(upstream)
+		expect(response).toBeInstanceOf(NotFound)
+		expect(response.message).toBe('No user 42')
+		expect(response.getHeader('ETag')).toBe('"1"')
+	})
+
+	test('falls back to the status line when the problem status is not a number', async () => {
+		const upstream = new Response('{"status":"404","title":"Not Found"}', { status: 404, headers: { 'Content-Type': PROBLEM_JSON } })
+		expect(await fromResponse(upstream)).toBeInstanceOf(NotFound)
+	})
+})
+
+describe('fetchResponse', () => {
+	const fetchMock = jest.spyOn(globalThis, 'fetch')
+
+	afterAll(() => fetchMock.mockRestore())
+
+	test('resolves with the class of successful responses', async () => {
+		fetchMock.mockResolvedValue(new Response('{"id":1}', { status: 200, headers: { 'Content-Type': 'application/json' } }))
+		const response = await fetchResponse('http://localhost/users/1')
+		expect(response).toBeInstanceOf(Success)
+		expect(response.body).toEqual({ id: 1 })
+	})
+
+	test('rejects with the class of errors', async () => {
+		fetchMock.mockResolvedValue(new Response('{"message":"Too many"}', { status: 429, headers: { 'Content-Type': 'application/json' } }))
+		await expect(fetchResponse('http://localhost/users')).rejects.toMatchObject({ statusCode: 429, message: 'Too many' })
+	})
+
+	test('rejects with a gateway error when the request fails', async () => {
+		fetchMock.mockRejectedValue(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }))
+		await expect(fetchResponse('http://localhost/users')).rejects.toBeInstanceOf(ServiceUnavailable)
+	})
+
+	test('rejects with a gateway error when the body can not be read', async () => {
+		const error = Object.assign(new TypeError('terminated'), { cause: { code: 'ECONNRESET' } })
+		const upstream = { status: 200, statusText: 'OK', headers: new Headers(), text: () => Promise.reject(error) }
+		fetchMock.mockResolvedValue((upstream as unknown) as Response)
+		await expect(fetchResponse('http://localhost/users')).rejects.toMatchObject({ statusCode: 502, cause: error })
+	})
+})
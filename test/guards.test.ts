@@ -0,0 +1,49 @@
+import {
+	BadGateway,
+	HttpError,
+	HttpResponse,
+	NotFound,
+	SeeOther,
+	Success,
+	fromStatusCode,
+	isClientError,
+	isHttpError,
+	isHttpResponse,
+	isInformational,
+	isRedirect,
+	isServerError,
+	isSuccess,
+} from '../index'
+
+describe('status class guards', () => {
+	test('recognize the pre-defined classes', () => {
+		expect(isSuccess(new Success())).toBe(true)
+		expect(isRedirect(new SeeOther({ location: '/' }))).toBe(true)
+		expect(isInformational(fromStatusCode(103))).toBe(true)
+		expect(isClientError(new NotFound())).toBe(true)
+		expect(isServerError(new BadGateway())).toBe(true)
+		expect(isServerError(new NotFound())).toBe(false)
+	})
+
+	test('recognize generic responses by their status code', () => {
+		const error = fromStatusCode(499)
+		expect(error).toBeInstanceOf(HttpError)
+		expect(isClientError(error)).toBe(true)
+		expect(isHttpError(error)).toBe(true)
+		expect(isServerError(fromStatusCode(599))).toBe(true)
+		expect(isSuccess(fromStatusCode(299))).toBe(true)
+	})
+
+	test('only accept errors for error statuses', () => {
+		const response = new HttpResponse({ statusCode: 404 })
+		expect(isHttpResponse(response)).toBe(true)
+		expect(isClientError(response)).toBe(false)
+		expect(isHttpError(response)).toBe(false)
+	})
+
+	test('accept any value', () => {
+		for (const value of [undefined, null, 404, 'Not Found', new Error('Not Found'), { statusCode: 404 }]) {
+			expect(isHttpResponse(value) || isHttpError(value) || isClientError(value) || isSuccess(value)).toBe(false)
+		}
+	})
+})
@@ -0,0 +1,39 @@
+import { HttpResponse, MethodNotAllowed, MissingHeaderError, NotFound, ResponseOptions, SeeOther, Unauthorized, buildResponse, fromStatusCode } from '../index'
+
+describe('required headers', () => {
+	test('are checked when a class is constructed', () => {
+		expect(() => new SeeOther()).toThrow(MissingHeaderError)
+		expect(() => new Unauthorized('Token expired')).toThrow('401 responses require a WWW-Authenticate header')
+	})
+
+	test('name the missing header in the error', () => {
+		try {
+			new MethodNotAllowed()
+			fail('expected a MissingHeaderError')
+		} catch (error) {
+			expect(error).toBeInstanceOf(TypeError)
+			expect(error).toMatchObject({ name: 'MissingHeaderError', statusCode: 405, header: 'Allow' })
+		}
+	})
+
+	test('are found regardless of their case', () => {
+		expect(new SeeOther({ headers: { location: '/orders/42' } }).getHeader('Location')).toBe('/orders/42')
+		expect(new Unauthorized({ wwwAuthenticate: { scheme: 'Bearer' } }).getHeader('WWW-Authenticate')).toBe('Bearer')
+	})
+
+	test('are not checked by the factories', () => {
+		expect(buildResponse<SeeOther>(SeeOther).getHeader('Location')).toBeUndefined()
+		expect(fromStatusCode(401)).toBeInstanceOf(Unauthorized)
+	})
+
+	test('are still checked for the responses a built class constructs itself', () => {
+		class Moved extends NotFound {
+			public readonly next: HttpResponse
+			constructor(options?: ResponseOptions) {
+				super(options)
+				this.next = new SeeOther()
+			}
+		}
+		expect(() => buildResponse(Moved)).toThrow(MissingHeaderError)
+	})
+})
@@ -0,0 +1,70 @@
+import { BadRequest, Success } from '../index'
+import { KoaContext, middleware, sendRendered } from '../koa'
+
+function context() {
+	const headers: { [name: string]: string } = {}
+	const ctx: KoaContext & { headers: typeof headers } = {
+		status: 404,
+		message: '',
+		body: undefined,
+		headers,
+		set: (name, value) => {
+			headers[name] = value
+		},
+	}
+	return ctx
+}
+
+describe('middleware', () => {
+	test('renders a response assigned to the body', async () => {
+		const ctx = context()
+		await middleware()(ctx, async () => {
+			ctx.body = new Success({ body: { id: 1 }, headers: { ETag: '"1"' } })
+		})
+		expect(ctx.status).toBe(200)
+		expect(ctx.message).toBe('OK')
+		expect(ctx.headers).toMatchObject({ ETag: '"1"', 'Content-Type': 'application/json; charset=utf-8' })
+		expect(JSON.parse(ctx.body as string)).toMatchObject({ statusCode: 200, body: { id: 1 } })
+	})
+
+	test('leaves other bodies alone', async () => {
+		const ctx = context()
+		await middleware()(ctx, async () => {
+			ctx.status = 200
+			ctx.body = { id: 1 }
+		})
+		expect(ctx.body).toEqual({ id: 1 })
+		expect(ctx.headers).toEqual({})
+	})
+
+	test('renders thrown responses without reporting them', async () => {
+		const ctx = context()
+		const onError = jest.fn()
+		await middleware({ onError })(ctx, async () => {
+			throw new BadRequest('Missing name')
+		})
+		expect(onError).not.toHaveBeenCalled()
+		expect(ctx.status).toBe(400)
+		expect(ctx.headers['Content-Type']).toBe('application/problem+json; charset=utf-8')
+		expect(JSON.parse(ctx.body as string)).toMatchObject({ status: 400, detail: 'Missing name' })
+	})
+
+	test('renders other errors as a 500 without their message', async () => {
+		const ctx = context()
+		const onError = jest.fn()
+		const error = new Error('Connection to db-1 lost')
+		await middleware({ onError })(ctx, () => Promise.reject(error))
+		expect(onError).toHaveBeenCalledWith(error)
+		expect(ctx.status).toBe(500)
+		expect(ctx.body).not.toContain('db-1')
+	})
+})
+
+describe('sendRendered', () => {
+	test('hands bytes to Koa as a Buffer so they are not serialized as JSON', () => {
+		const ctx = context()
+		sendRendered(ctx, { statusCode: 206, status: 'Partial Content', headers: {}, body: new Uint8Array([1, 2, 3]).subarray(1) })
+		expect((ctx.body as object).constructor.name).toBe('Buffer')
+		expect(Array.from(ctx.body as Uint8Array)).toEqual([2, 3])
+	})
+})
@@ -0,0 +1,95 @@
+import { NotFound, PROBLEM_JSON, PROBLEM_XML, Success, UnsupportedMediaType } from '../index'
+import { cachingHeaders } from '../conditional'
+import { sendRendered } from '../koa'
+import { negotiate, renderFor, requireContentType } from '../negotiation'
+import { writeRendered } from '../node'
+
+describe('negotiate', () => {
+	test('follows quality values', () => {
+		expect(negotiate('text/html;q=0.9, application/*', ['text/html', 'application/json'])).toBe('application/json')
+	})
+
+	test('uses the quality of the most specific range', () => {
+		expect(negotiate('text/*;q=0.5, text/plain;q=0', ['text/plain', 'text/csv'])).toBe('text/csv')
+	})
+
+	test('defaults to the first offer without an Accept header', () => {
+		expect(negotiate(undefined, ['application/json', 'text/plain'])).toBe('application/json')
+	})
+
+	test('returns undefined when nothing is acceptable', () => {
+		expect(negotiate('image/png', ['application/json'])).toBeUndefined()
+	})
+})
+
+describe('requireContentType', () => {
+	test('returns the essence of a supported type', () => {
+		expect(requireContentType('application/json; charset=utf-8', ['application/json'])).toBe('application/json')
+	})
+
+	test('throws an UnsupportedMediaType otherwise', () => {
+		expect(() => requireContentType('text/xml', ['application/json'])).toThrow(UnsupportedMediaType)
+	})
+})
+
+describe('renderFor', () => {
+	test('writes errors as problem+xml', () => {
+		for (const accept of ['application/xml', PROBLEM_XML]) {
+			const rendered = renderFor(new NotFound('User 42 does not exist'), accept)
+			expect(rendered.headers['Content-Type']).toBe(`${PROBLEM_XML}; charset=utf-8`)
+			expect(rendered.body).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?><problem xmlns="urn:ietf:rfc:7807">/)
+			expect(rendered.body).toContain('<detail>User 42 does not exist</detail>')
+		}
+	})
+
+	test('writes other responses as application/xml', () => {
+		const rendered = renderFor(new Success({ body: { id: 1 } }), 'application/xml')
+		expect(rendered.headers['Content-Type']).toBe('application/xml; charset=utf-8')
+		expect(rendered.body).toContain('<body><id>1</id></body>')
+	})
+
+	test('sends errors as problem details when no format is acceptable', () => {
+		const rendered = renderFor(new NotFound(), 'image/png')
+		expect(rendered.statusCode).toBe(404)
+		expect(rendered.headers['Content-Type']).toBe(`${PROBLEM_JSON}; charset=utf-8`)
+		expect(rendered.headers.Vary).toBe('Accept')
+	})
+
+	test('adds Accept to the Vary header the response already has', () => {
+		const rendered = renderFor(new Success({ body: 'ok', headers: cachingHeaders({ vary: ['Accept-Language'] }) }), 'application/xml')
+		expect(rendered.headers.Vary).toBe('Accept-Language, Accept')
+		const lowerCase = renderFor(new NotFound({ headers: { vary: 'Origin' } }), 'image/png').headers
+		expect(Object.keys(lowerCase).filter(name => name.toLowerCase() === 'vary')).toEqual(['Vary'])
+		expect(lowerCase.Vary).toBe('Origin, Accept')
+	})
+
+	test('keeps a Vary header that already covers Accept', () => {
+		expect(renderFor(new Success({ body: 'ok', headers: { Vary: 'accept, Origin' } }), 'application/json').headers.Vary).toBe('accept, Origin')
+		expect(renderFor(new Success({ body: 'ok', headers: { Vary: '*' } }), 'application/json').headers.Vary).toBe('*')
+	})
+
+	test('replaces other responses by a NotAcceptable when no format is acceptable', () => {
+		expect(renderFor(new Success({ body: 'ok' }), 'image/png').statusCode).toBe(406)
+	})
+})
+
+describe('sending rendered responses', () => {
+	const rendered = renderFor(new NotFound(), 'text/plain')
+
+	test('writes them to a Node response', () => {
+		const headers: { [name: string]: string } = {}
+		const res = { headersSent: false, statusCode: 200, statusMessage: '', setHeader: (name: string, value: string) => (headers[name] = value), end: jest.fn() }
+		writeRendered(res, rendered)
+		expect(res.statusCode).toBe(404)
+		expect(headers['Content-Type']).toBe('text/plain; charset=utf-8')
+		expect(res.end).toHaveBeenCalledWith(rendered.body)
+	})
+
+	test('sends them through a Koa context', () => {
+		const ctx = { status: 200, message: '', body: undefined as unknown, set: jest.fn() }
+		sendRendered(ctx, rendered)
+		expect(ctx.status).toBe(404)
+		expect(ctx.set).toHaveBeenCalledWith('Content-Type', 'text/plain; charset=utf-8')
+		expect(ctx.body).toBe(rendered.body)
+	})
+})
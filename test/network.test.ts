@@ -0,0 +1,29 @@
+import { BadGateway, GatewayTimeout, NotFound, ServiceUnavailable, fromNetworkError } from '../index'
+
+describe('fromNetworkError', () => {
+	test('maps timeouts to GatewayTimeout', () => {
+		expect(fromNetworkError(Object.assign(new Error('read timeout'), { code: 'ETIMEDOUT' }))).toBeInstanceOf(GatewayTimeout)
+		expect(fromNetworkError(Object.assign(new Error('The operation timed out'), { name: 'TimeoutError' }))).toBeInstanceOf(GatewayTimeout)
+	})
+
+	test('maps unreachable upstreams to ServiceUnavailable', () => {
+		expect(fromNetworkError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))).toBeInstanceOf(ServiceUnavailable)
+	})
+
+	test('inspects the whole cause chain, as fetch wraps system errors', () => {
+		const error = Object.assign(new TypeError('fetch failed'), { cause: { code: 'UND_ERR_CONNECT_TIMEOUT' } })
+		const response = fromNetworkError(error)
+		expect(response).toBeInstanceOf(GatewayTimeout)
+		expect(response).toMatchObject({ message: 'Upstream request timed out', cause: error })
+	})
+
+	test('maps anything else to BadGateway', () => {
+		expect(fromNetworkError(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }))).toBeInstanceOf(BadGateway)
+		expect(fromNetworkError('failed')).toBeInstanceOf(BadGateway)
+	})
+
+	test('keeps responses as they are', () => {
+		const response = new NotFound()
+		expect(fromNetworkError(response)).toBe(response)
+	})
+})
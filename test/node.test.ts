@@ -0,0 +1,43 @@
+import { NotFound, PROBLEM_JSON, Success } from '../index'
+import { IncomingMessageLike, fromIncomingMessage } from '../node'
+
+// An incoming message that emits its body in chunks once read
+function incomingMessage(statusCode: number, headers: { [name: string]: unknown }, chunks: string[], error?: Error): IncomingMessageLike {
+	const listeners: { [event: string]: Function } = {}
+	const message: IncomingMessageLike = {
+		statusCode,
+		statusMessage: '',
+		headers,
+		setEncoding: () => message,
+		on: (event: string, listener: Function) => {
+			listeners[event] = listener
+			if (event === 'end') {
+				Promise.resolve().then(() => {
+					chunks.forEach(chunk => listeners.data(chunk))
+					return error ? listeners.error(error) : listeners.end()
+				})
+			}
+			return message
+		},
+	}
+	return message
+}
+
+describe('fromIncomingMessage', () => {
+	test('reads the body into the matching class', async () => {
+		const response = await fromIncomingMessage(incomingMessage(200, { 'content-type': 'application/json' }, ['{"id"', ':1}']))
+		expect(response).toBeInstanceOf(Success)
+		expect(response.body).toEqual({ id: 1 })
+	})
+
+	test('reads problem details with a non-numeric status using the status line', async () => {
+		const response = await fromIncomingMessage(incomingMessage(404, { 'content-type': PROBLEM_JSON }, ['{"status":"404","detail":"No user 42"}']))
+		expect(response).toBeInstanceOf(NotFound)
+		expect(response.message).toBe('No user 42')
+	})
+
+	test('rejects with the errors of the message', async () => {
+		const error = new Error('aborted')
+		await expect(fromIncomingMessage(incomingMessage(200, {}, ['{'], error))).rejects.toBe(error)
+	})
+})
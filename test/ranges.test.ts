@@ -0,0 +1,99 @@
+import { PartialContent, RequestedRangeNotSatisfiable, Success } from '../index'
+import { toResponse } from '../fetch'
+import { writeRendered } from '../node'
+import { serverResponse } from './fakes'
+import { contentRange, parseRange, rangeResponse } from '../ranges'
+
+describe('parseRange', () => {
+	test('coalesces overlapping and touching ranges', () => {
+		expect(parseRange('bytes=0-99, 100-199, -100', 1000)).toEqual([{ start: 0, end: 199 }, { start: 900, end: 999 }])
+	})
+
+	test('clamps the end of a range to the length', () => {
+		expect(parseRange('bytes=990-2000', 1000)).toEqual([{ start: 990, end: 999 }])
+	})
+
+	test('returns no ranges when none can be satisfied', () => {
+		expect(parseRange('bytes=1000-', 1000)).toEqual([])
+	})
+
+	test('ignores malformed headers and other units', () => {
+		expect(parseRange('bytes=5-2', 1000)).toBeUndefined()
+		expect(parseRange('items=0-1', 1000)).toBeUndefined()
+	})
+})
+
+describe('contentRange', () => {
+	test('formats a range or an unsatisfied length', () => {
+		expect(contentRange(1000, { start: 0, end: 99 })).toBe('bytes 0-99/1000')
+		expect(contentRange(1000)).toBe('bytes */1000')
+	})
+})
+
+function text(body: unknown): string {
+	return new TextDecoder().decode(body as Uint8Array)
+}
+
+describe('rangeResponse', () => {
+	const content = 'abcdefghijklmnopqrstuvwxyz'
+
+	test('answers the whole content without a Range header', () => {
+		const response = rangeResponse({}, content, { contentType: 'text/plain' })
+		expect(response).toBeInstanceOf(Success)
+		expect(text(response.render().body)).toBe(content)
+	})
+
+	test('sends exactly the bytes announced by Content-Range', () => {
+		const rendered = rangeResponse({ Range: 'bytes=2-5' }, content, { contentType: 'text/plain' }).render()
+		expect(rendered.statusCode).toBe(206)
+		expect(rendered.headers['Content-Range']).toBe('bytes 2-5/26')
+		expect(text(rendered.body)).toBe('cdef')
+	})
+
+	test('sends slices of JSON documents as they are', () => {
+		const json = JSON.stringify({ users: [{ id: 1 }, { id: 2 }] })
+		const rendered = rangeResponse({ range: 'bytes=0-9' }, json, { contentType: 'application/json' }).render()
+		expect(rendered.headers['Content-Range']).toBe(`bytes 0-9/${json.length}`)
+		expect(text(rendered.body)).toBe(json.slice(0, 10))
+	})
+
+	test('counts the bytes of non-ASCII text', () => {
+		const rendered = rangeResponse({ range: 'bytes=0-2' }, 'héllo', { contentType: 'text/plain; charset=utf-8' }).render()
+		expect(rendered.headers['Content-Range']).toBe('bytes 0-2/6')
+		expect(text(rendered.body)).toBe('hé')
+	})
+
+	test('slices binary content without altering it', () => {
+		const content = new Uint8Array([0x00, 0x7f, 0x80, 0xff, 0xfe])
+		const rendered = rangeResponse({ range: 'bytes=2-3' }, content).render()
+		expect(rendered.headers).toMatchObject({ 'Content-Range': 'bytes 2-3/5', 'Content-Type': 'application/octet-stream' })
+		expect(Array.from(rendered.body as Uint8Array)).toEqual([0x80, 0xff])
+	})
+
+	test('is sent as bytes by the writers', async () => {
+		const response = rangeResponse({ range: 'bytes=1-3' }, new Uint8Array([0x00, 0xe9, 0xff, 0x80, 0x01]))
+		const res = serverResponse()
+		writeRendered(res, response.render())
+		expect(Array.from(res.body as Uint8Array)).toEqual([0xe9, 0xff, 0x80])
+		expect(Array.from(new Uint8Array(await toResponse(response).arrayBuffer()))).toEqual([0xe9, 0xff, 0x80])
+	})
+
+	test('writes several ranges as multipart/byteranges', () => {
+		const response = rangeResponse({ range: 'bytes=0-1, 24-25' }, content, { contentType: 'text/plain', boundary: 'b' })
+		expect(response).toBeInstanceOf(PartialContent)
+		expect(text(response.render().body)).toBe(
+			'--b\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/26\r\n\r\nab\r\n--b\r\nContent-Type: text/plain\r\nContent-Range: bytes 24-25/26\r\n\r\nyz\r\n--b--\r\n',
+		)
+	})
+
+	test('refuses ranges that can not be satisfied', () => {
+		const response = rangeResponse({ range: 'bytes=30-' }, content)
+		expect(response).toBeInstanceOf(RequestedRangeNotSatisfiable)
+		expect(response.getHeader('Content-Range')).toBe('bytes */26')
+	})
+
+	test('answers the whole content when If-Range does not match', () => {
+		const response = rangeResponse({ range: 'bytes=0-1', 'if-range': '"old"' }, content, { etag: '"new"' })
+		expect(response.statusCode).toBe(200)
+	})
+})
@@ -0,0 +1,77 @@
+import { TooManyRequests } from '../index'
+import { MemoryStore, fixedWindow, takeTokens, tokenBucket } from '../ratelimit'
+
+function fakeClock(start = 0) {
+	const clock = { time: start, now: () => clock.time }
+	return clock
+}
+
+describe('tokenBucket', () => {
+	test('lets bursts through up to the capacity', async () => {
+		const limiter = tokenBucket({ capacity: 2, refillRate: 1, clock: fakeClock() })
+		expect(await limiter.consume('k')).toEqual({ limit: 2, remaining: 1, reset: 1 })
+		expect(await limiter.consume('k')).toEqual({ limit: 2, remaining: 0, reset: 2 })
+		const refused = await limiter.consume('k')
+		expect(refused).toBeInstanceOf(TooManyRequests)
+		expect((refused as TooManyRequests).getHeader('Retry-After')).toBe('1')
+	})
+
+	test('does not let concurrent requests spend the same tokens', async () => {
+		const limiter = tokenBucket({ capacity: 2, refillRate: 1, clock: fakeClock() })
+		const results = await Promise.all([1, 2, 3, 4, 5].map(() => limiter.consume('k')))
+		expect(results.filter(result => result instanceof TooManyRequests)).toHaveLength(3)
+	})
+
+	test('refills at its rate', async () => {
+		const clock = fakeClock()
+		const limiter = tokenBucket({ capacity: 2, refillRate: 1, clock })
+		await limiter.consume('k', 2)
+		clock.time += 1000
+		expect(await limiter.consume('k')).toEqual({ limit: 2, remaining: 0, reset: 2 })
+	})
+})
+
+describe('fixedWindow', () => {
+	test('refuses requests over the limit until the window ends', async () => {
+		const clock = fakeClock()
+		const limiter = fixedWindow({ limit: 1, window: 60000, clock })
+		expect(await limiter.consume('k')).toEqual({ limit: 1, remaining: 0, reset: 60 })
+		expect(await limiter.consume('k')).toBeInstanceOf(TooManyRequests)
+		clock.time += 60000
+		expect(await limiter.consume('k')).toEqual({ limit: 1, remaining: 0, reset: 60 })
+	})
+})
+
+describe('MemoryStore', () => {
+	test('starts expired buckets full', async () => {
+		const clock = fakeClock()
+		const store = new MemoryStore(clock)
+		await store.take('k', 2, { capacity: 2, refillRate: 0.001 })
+		clock.time += 2000000
+		expect(await store.take('k', 2, { capacity: 2, refillRate: 0.001 })).toEqual({ tokens: 0, taken: true })
+	})
+
+	test('sweeps out the entries of keys that never came back', async () => {
+		const clock = fakeClock()
+		const store = new MemoryStore(clock, 60000)
+		for (let index = 0; index < 1000; index++) {
+			await store.increment(`10.0.0.${index}`, 1, 1000)
+			await store.take(`10.0.1.${index}`, 1, { capacity: 5, refillRate: 1 })
+		}
+		await store.increment('kept', 1, 120000)
+		expect(store.size).toBe(2001)
+		clock.time += 30000
+		await store.increment('other', 1, 1000)
+		expect(store.size).toBe(2002)
+		clock.time += 30000
+		await store.increment('other', 1, 1000)
+		expect(store.size).toBe(2)
+		expect(await store.increment('kept', 1, 120000)).toEqual({ count: 2, expiresAt: 120000 })
+	})
+})
+
+describe('takeTokens', () => {
+	test('keeps the tokens when there are not enough', () => {
+		expect(takeTokens({ tokens: 0.5, updatedAt: 0 }, 1, { capacity: 2, refillRate: 1 }, 0)).toEqual({ state: { tokens: 0.5, updatedAt: 0 }, taken: false, ttl: 1500 })
+	})
+})
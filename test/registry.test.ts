@@ -0,0 +1,120 @@
+import * as responses from '../index'
+import { HttpError, HttpResponse, ResponseClass, buildResponse, fromStatusCode, getReasonPhrase, getResponseClass } from '../index'
+
+// The IANA HTTP Status Code Registry @ https://www.iana.org/assignments/http-status-codes, with the class of each code
+const registry: Array<[number, string, string]> = [
+	[100, 'Continue', 'Continue'],
+	[101, 'Switching Protocols', 'SwitchingProtocols'],
+	[102, 'Processing', 'Processing'],
+	[103, 'Early Hints', 'EarlyHints'],
+	[200, 'OK', 'Success'],
+	[201, 'Created', 'Created'],
+	[202, 'Accepted', 'Accepted'],
+	[203, 'Non-Authoritative Information', 'NonAuthoritativeInformation'],
+	[204, 'No Content', 'NoContent'],
+	[205, 'Reset Content', 'ResetContent'],
+	[206, 'Partial Content', 'PartialContent'],
+	[207, 'Multi-Status', 'MultiStatus'],
+	[208, 'Already Reported', 'AlreadyReported'],
+	[226, 'IM Used', 'IMUsed'],
+	[300, 'Multiple Choices', 'MultipleChoices'],
+	[301, 'Moved Permanently', 'MovedPermanently'],
+	[302, 'Found', 'MovedTemporarily'],
+	[303, 'See Other', 'SeeOther'],
+	[304, 'Not Modified', 'NotModified'],
+	[305, 'Use Proxy', 'UseProxy'],
+	[307, 'Temporary Redirect', 'TemporaryRedirect'],
+	[308, 'Permanent Redirect', 'PermanentRedirect'],
+	[400, 'Bad Request', 'BadRequest'],
+	[401, 'Unauthorized', 'Unauthorized'],
+	[402, 'Payment Required', 'PaymentRequired'],
+	[403, 'Forbidden', 'Forbidden'],
+	[404, 'Not Found', 'NotFound'],
+	[405, 'Method Not Allowed', 'MethodNotAllowed'],
+	[406, 'Not Acceptable', 'NotAcceptable'],
+	[407, 'Proxy Authentication Required', 'ProxyAuthenticationRequired'],
+	[408, 'Request Timeout', 'RequestTimeout'],
+	[409, 'Conflict', 'Conflict'],
+	[410, 'Gone', 'Gone'],
+	[411, 'Length Required', 'LengthRequired'],
+	[412, 'Precondition Failed', 'PreconditionFailed'],
+	[413, 'Content Too Large', 'RequestTooLong'],
+	[414, 'URI Too Long', 'RequestURITooLong'],
+	[415, 'Unsupported Media Type', 'UnsupportedMediaType'],
+	[416, 'Range Not Satisfiable', 'RequestedRangeNotSatisfiable'],
+	[417, 'Expectation Failed', 'ExpectationFailed'],
+	[421, 'Misdirected Request', 'MisdirectedRequest'],
+	[422, 'Unprocessable Content', 'UnprocessableEntity'],
+	[423, 'Locked', 'Locked'],
+	[424, 'Failed Dependency', 'FailedDependency'],
+	[425, 'Too Early', 'TooEarly'],
+	[426, 'Upgrade Required', 'UpgradeRequired'],
+	[428, 'Precondition Required', 'PreconditionRequired'],
+	[429, 'Too Many Requests', 'TooManyRequests'],
+	[431, 'Request Header Fields Too Large', 'RequestHeaderFieldsTooLarge'],
+	[451, 'Unavailable For Legal Reasons', 'UnavailableForLegalReasons'],
+	[500, 'Internal Server Error', 'InternalServerError'],
+	[501, 'Not Implemented', 'NotImplemented'],
+	[502, 'Bad Gateway', 'BadGateway'],
+	[503, 'Service Unavailable', 'ServiceUnavailable'],
+	[504, 'Gateway Timeout', 'GatewayTimeout'],
+	[505, 'HTTP Version Not Supported', 'HttpVersionNotSupported'],
+	[506, 'Variant Also Negotiates', 'VariantAlsoNegotiates'],
+	[507, 'Insufficient Storage', 'InsufficientStorage'],
+	[508, 'Loop Detected', 'LoopDetected'],
+	[510, 'Not Extended', 'NotExtended'],
+	[511, 'Network Authentication Required', 'NetworkAuthenticationRequired'],
+]
+
+// Codes outside of the registry that keep a class for compatibility
+const unregistered: Array<[number, string]> = [[418, 'ImATeapot'], [419, 'InsufficientSpaceOnResource']]
+
+const exported = (responses as unknown) as { [name: string]: ResponseClass | undefined }
+
+describe.each(registry)('%i %s', (statusCode, reasonPhrase, className) => {
+	const ResponseClass = exported[className]!
+
+	test(`is exported as ${className}`, () => {
+		expect(ResponseClass).toBeInstanceOf(Function)
+	})
+
+	test('has the registered reason phrase', () => {
+		expect(getReasonPhrase(statusCode)).toBe(reasonPhrase)
+	})
+
+	test('builds with its status code and reason phrase', () => {
+		const response = buildResponse(ResponseClass)
+		expect(response.statusCode).toBe(statusCode)
+		expect(response.status).toBe(reasonPhrase)
+		expect(response.message).toBe(reasonPhrase)
+	})
+
+	test('has a description of its own', () => {
+		expect(Object.getOwnPropertyDescriptor(ResponseClass, 'description')).toMatchObject({ value: expect.any(String) })
+	})
+
+	test('is registered against its status code', () => {
+		expect(getResponseClass(statusCode)).toBe(ResponseClass)
+		expect(fromStatusCode(statusCode)).toBeInstanceOf(ResponseClass)
+	})
+
+	test(`is ${statusCode >= 400 ? 'an' : 'not an'} Error`, () => {
+		expect(buildResponse(ResponseClass) instanceof Error).toBe(statusCode >= 400)
+		expect(buildResponse(ResponseClass)).toBeInstanceOf(statusCode >= 400 ? HttpError : HttpResponse)
+	})
+})
+
+test('every response class is either registered or a known exception', () => {
+	const classNames = Object.keys(exported).filter(name => {
+		const value = exported[name]
+		return typeof value === 'function' && value.prototype instanceof HttpResponse
+	})
+	const known = registry.map(([, , className]) => className).concat(unregistered.map(([, className]) => className))
+	const abstract = ['InformationalResponse', 'SuccessResponse', 'RedirectResponse', 'ClientError', 'ServerError']
+	expect(classNames.filter(name => abstract.indexOf(name) === -1).sort()).toEqual(known.sort())
+})
+
+test.each(unregistered)('%i keeps its class', (statusCode, className) => {
+	expect(getResponseClass(statusCode)).toBe(exported[className])
+	expect(Object.getOwnPropertyDescriptor(exported[className], 'description')).toMatchObject({ value: expect.any(String) })
+})
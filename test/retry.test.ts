@@ -0,0 +1,87 @@
+import { BadRequest, HttpResponse, ServiceUnavailable, Success, TooManyRequests } from '../index'
+import { Clock, retry } from '../retry'
+
+// A clock whose sleeps return at once, moving time forward
+function fakeClock(start = 0): Clock & { sleeps: number[] } {
+	let now = start
+	const sleeps: number[] = []
+	return {
+		sleeps,
+		now: () => now,
+		sleep: async milliseconds => {
+			sleeps.push(milliseconds)
+			now += milliseconds
+		},
+	}
+}
+
+// An operation that answers with the given responses in turn, throwing the errors
+function responses(...outcomes: HttpResponse[]) {
+	return jest.fn(async (attempt: number) => {
+		const outcome = outcomes[attempt - 1]
+		if (outcome.statusCode >= 400) {
+			throw outcome
+		}
+		return outcome
+	})
+}
+
+describe('retry', () => {
+	test('backs off exponentially with jitter until the operation succeeds', async () => {
+		const clock = fakeClock()
+		const operation = responses(new ServiceUnavailable(), new ServiceUnavailable(), new Success())
+		await expect(retry(operation, { clock, random: () => 0.5, baseDelay: 100 })).resolves.toBeInstanceOf(Success)
+		expect(operation).toHaveBeenCalledTimes(3)
+		expect(clock.sleeps).toEqual([50, 100])
+	})
+
+	test('waits as long as Retry-After asks', async () => {
+		const clock = fakeClock(Date.parse('2024-01-01T00:00:00Z'))
+		const onRetry = jest.fn()
+		const operation = responses(new TooManyRequests({ retryAfter: 2 }), new ServiceUnavailable({ headers: { 'Retry-After': 'Mon, 01 Jan 2024 00:00:05 GMT' } }), new Success())
+		await retry(operation, { clock, onRetry })
+		expect(clock.sleeps).toEqual([2000, 3000])
+		expect(onRetry).toHaveBeenCalledWith(expect.any(TooManyRequests), 1, 2000)
+	})
+
+	test('gives up when Retry-After exceeds maxDelay', async () => {
+		const clock = fakeClock()
+		const response = new TooManyRequests({ retryAfter: 60 })
+		const operation = responses(response, new Success())
+		await expect(retry(operation, { clock, maxDelay: 30000 })).rejects.toBe(response)
+		expect(operation).toHaveBeenCalledTimes(1)
+		expect(clock.sleeps).toEqual([])
+	})
+
+	test('gives up when the next delay would exceed the budget', async () => {
+		const clock = fakeClock()
+		const operation = responses(new ServiceUnavailable({ retryAfter: 4 }), new ServiceUnavailable({ retryAfter: 4 }), new Success())
+		await expect(retry(operation, { clock, budget: 5000 })).rejects.toBeInstanceOf(ServiceUnavailable)
+		expect(operation).toHaveBeenCalledTimes(2)
+		expect(clock.sleeps).toEqual([4000])
+	})
+
+	test('throws the last response once retries are exhausted', async () => {
+		const clock = fakeClock()
+		const last = new ServiceUnavailable('Still down')
+		const operation = responses(new ServiceUnavailable(), new ServiceUnavailable(), last, new Success())
+		await expect(retry(operation, { clock, retries: 2, random: () => 0 })).rejects.toBe(last)
+		expect(operation).toHaveBeenCalledTimes(3)
+	})
+
+	test('rethrows responses that are not retryable immediately', async () => {
+		const clock = fakeClock()
+		const operation = responses(new BadRequest(), new Success())
+		await expect(retry(operation, { clock })).rejects.toBeInstanceOf(BadRequest)
+		expect(operation).toHaveBeenCalledTimes(1)
+	})
+
+	test('rethrows anything that is not a response immediately', async () => {
+		const clock = fakeClock()
+		const error = new Error('Invalid URL')
+		const operation = jest.fn(() => Promise.reject(error))
+		await expect(retry(operation, { clock })).rejects.toBe(error)
+		expect(operation).toHaveBeenCalledTimes(1)
+		expect(clock.sleeps).toEqual([])
+	})
+})
@@ -0,0 +1,59 @@
+import { Created, InternalServerError, NotFound, Success, configureSerialization, redact } from '../index'
+
+class Money {
+	public readonly internal = 'ledger-7'
+	constructor(public readonly amount: number) {}
+	toJSON() {
+		return { amount: this.amount }
+	}
+}
+
+afterEach(() => {
+	configureSerialization({ production: undefined, debug: false, publicRedactKeys: [] })
+})
+
+describe('public view', () => {
+	test('keeps tokens that are part of the payload', () => {
+		expect(new Success({ body: { nextPageToken: 'abc' } }).toJSON().body).toEqual({ nextPageToken: 'abc' })
+		expect(JSON.parse(new Created({ body: { access_token: 'xyz', token_type: 'Bearer' } }).render().body as string).body).toEqual({ access_token: 'xyz', token_type: 'Bearer' })
+	})
+
+	test('serializes bodies through their own toJSON', () => {
+		const body = { price: new Money(5), tags: new Set(['a']) }
+		expect(JSON.parse(new Success({ body }).render().body as string).body).toEqual({ price: { amount: 5 }, tags: {} })
+	})
+
+	test('redacts the keys opted into', () => {
+		configureSerialization({ publicRedactKeys: ['ssn'] })
+		expect(new NotFound({ extensions: { ssn: '123', id: 4 } }).toProblemDetails()).toMatchObject({ ssn: '[REDACTED]', id: 4 })
+	})
+
+	test('hides the message of server errors in production', () => {
+		configureSerialization({ production: true })
+		expect(new InternalServerError('Connection to db-1 lost').toJSON().message).toBe('Internal Server Error')
+	})
+})
+
+describe('log view', () => {
+	test('redacts sensitive keys from bodies and headers', () => {
+		const log = new Success({ body: { password: 'hunter2', name: 'Ada' }, headers: { 'Set-Cookie': 'session=1' } }).toLog()
+		expect(log.body).toEqual({ password: '[REDACTED]', name: 'Ada' })
+		expect(log.headers).toEqual({ 'Set-Cookie': '[REDACTED]' })
+	})
+})
+
+describe('redact', () => {
+	test('honors toJSON before copying', () => {
+		expect(redact({ price: new Money(5), token: 't' })).toEqual({ price: { amount: 5 }, token: '[REDACTED]' })
+	})
+
+	test('walks arrays and replaces cycles', () => {
+		const cyclic: { [key: string]: unknown } = { items: [{ secret: 's' }] }
+		cyclic.self = cyclic
+		expect(redact(cyclic)).toEqual({ items: [{ secret: '[REDACTED]' }], self: '[Circular]' })
+	})
+
+	test('redacts the keys it is given', () => {
+		expect(redact({ ssn: '123', password: 'p' }, ['ssn'])).toEqual({ ssn: '[REDACTED]', password: 'p' })
+	})
+})
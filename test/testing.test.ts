@@ -0,0 +1,37 @@
+import { MethodNotAllowed, MissingHeaderError, ResponseOptions, SeeOther, Unauthorized, requiredHeaderExamples } from '../index'
+import { fakeResponse, fakeStatus } from '../testing'
+
+describe('fakeResponse', () => {
+	test('fills in the header a class requires', () => {
+		const response = fakeResponse<SeeOther>(SeeOther)
+		expect(response.getHeader('Location')).toBe(requiredHeaderExamples.Location)
+		expect(fakeStatus(401)).toBeInstanceOf(Unauthorized)
+	})
+
+	test('keeps the header it is given', () => {
+		const response = fakeResponse<MethodNotAllowed>(MethodNotAllowed, { headers: { allow: 'POST' } })
+		expect(response.getHeader('Allow')).toBe('POST')
+	})
+
+	test('fills in every header a class requires', () => {
+		class Relocated extends SeeOther {
+			constructor(options?: ResponseOptions) {
+				super(options)
+				if (this.getHeader('Allow') === undefined) {
+					throw new MissingHeaderError(303, 'Allow')
+				}
+			}
+		}
+		expect(fakeResponse(Relocated).headers).toEqual({ Location: requiredHeaderExamples.Location, Allow: requiredHeaderExamples.Allow })
+	})
+
+	test('rethrows errors for headers it has no example of', () => {
+		class Signed extends SeeOther {
+			constructor() {
+				super({ location: '/' })
+				throw new MissingHeaderError(303, 'Signature')
+			}
+		}
+		expect(() => fakeResponse(Signed)).toThrow('303 responses require a Signature header')
+	})
+})
@@ -0,0 +1,58 @@
+import { UnprocessableEntity, mergeViolations, toPointer } from '../index'
+import { ajvViolations, fromAjvErrors, fromZodIssues, zodViolations } from '../validation'
+
+describe('ajvViolations', () => {
+	test('uses the instance path of ajv 8', () => {
+		expect(ajvViolations([{ keyword: 'minimum', instancePath: '/items/0/quantity', message: 'must be >= 1' }])).toEqual([
+			{ path: '/items/0/quantity', code: 'minimum', message: 'must be >= 1' },
+		])
+	})
+
+	test('converts the data path of older versions', () => {
+		expect(ajvViolations([{ keyword: 'type', dataPath: ".items[0]['first name']" }])).toEqual([{ path: '/items/0/first name', code: 'type', message: 'is invalid' }])
+	})
+
+	test('points at missing and unexpected properties', () => {
+		const errors = [
+			{ keyword: 'required', instancePath: '/user', params: { missingProperty: 'first name' } },
+			{ keyword: 'additionalProperties', instancePath: '', params: { additionalProperty: 'a/b' } },
+		]
+		expect(ajvViolations(errors).map(({ path }) => path)).toEqual(['/user/first name', '/a~1b'])
+	})
+
+	test('parses missing properties in the JavaScript notation of older versions', () => {
+		const errors = [
+			{ keyword: 'required', dataPath: '.user', params: { missingProperty: '.name' } },
+			{ keyword: 'required', dataPath: '.user', params: { missingProperty: "['first name']" } },
+		]
+		expect(ajvViolations(errors).map(({ path }) => path)).toEqual(['/user/name', '/user/first name'])
+	})
+
+	test('accepts the absence of errors', () => {
+		expect(ajvViolations(null)).toEqual([])
+		expect(fromAjvErrors(undefined)).toBeInstanceOf(UnprocessableEntity)
+	})
+})
+
+describe('zodViolations', () => {
+	test('turns issue paths into pointers', () => {
+		const issues = [{ code: 'too_small', path: ['items', 0, 'quantity'], message: 'Must be at least 1' }]
+		expect(zodViolations(issues)).toEqual([{ path: '/items/0/quantity', code: 'too_small', message: 'Must be at least 1' }])
+		expect(fromZodIssues(issues).toProblemDetails().errors).toEqual(zodViolations(issues))
+	})
+})
+
+describe('toPointer', () => {
+	test('escapes tildes and slashes', () => {
+		expect(toPointer(['a~b', 'c/d', 0])).toBe('/a~0b/c~1d/0')
+		expect(toPointer([])).toBe('')
+	})
+})
+
+describe('mergeViolations', () => {
+	test('drops violations reported twice for the same path and code', () => {
+		const required = { path: '/name', code: 'required', message: 'is required' }
+		const merged = mergeViolations([required], [{ ...required, message: 'is missing' }, { path: '/name', code: 'type', message: 'must be a string' }])
+		expect(merged).toEqual([required, { path: '/name', code: 'type', message: 'must be a string' }])
+	})
+})
@@ -0,0 +1,170 @@
+import { HttpResponse, MissingHeaderError, ProblemDetails, ResponseClass, ResponseOptions, findHeader, fromStatusCode, getResponseClass, requiredHeaderExamples } from './index'
+
+/**
+ * The result of a Jest-style matcher.
+ */
+export interface MatcherResult {
+	pass: boolean
+	message: () => string
+}
+
+declare global {
+	namespace jest {
+		interface Matchers<R> {
+			toBeHttpResponse(ResponseClass?: ResponseClass): R
+			toHaveStatus(status: number | string): R
+			toHaveHeader(name: string, value?: string | RegExp): R
+			toMatchProblemDetails(expected: Partial<ProblemDetails>): R
+		}
+	}
+}
+
+function display(value: unknown): string {
+	if (value instanceof HttpResponse) {
+		return `${value.constructor.name} (${value.statusCode} ${value.status})`
+	}
+	if (value instanceof Error) {
+		return `${value.name}: ${value.message}`
+	}
+	return typeof value === 'string' ? JSON.stringify(value) : String(JSON.stringify(value))
+}
+
+function result(pass: boolean, expectation: string, received: unknown, actual?: string): MatcherResult {
+	return {
+		pass,
+		message: () => `expected ${display(received)} ${pass ? 'not ' : ''}${expectation}${actual === undefined || pass ? '' : `, got ${actual}`}`,
+	}
+}
+
+// Arrays must match item by item, objects on the members expected only
+function matchesSubset(actual: unknown, expected: unknown): boolean {
+	if (expected instanceof RegExp) {
+		return typeof actual === 'string' && expected.test(actual)
+	}
+	if (Array.isArray(expected)) {
+		return Array.isArray(actual) && actual.length === expected.length && expected.every((item, index) => matchesSubset(actual[index], item))
+	}
+	if (expected && typeof expected === 'object') {
+		const members = expected as { [name: string]: unknown }
+		return !!actual && typeof actual === 'object' && Object.keys(members).every(name => matchesSubset((actual as { [name: string]: unknown })[name], members[name]))
+	}
+	return actual === expected
+}
+
+/**
+ * Jest-style matchers for responses, to register with `expect.extend(matchers)`:
+ * - `toBeHttpResponse(NotFound)` checks the class of a response, or that a value is a response at all,
+ * - `toHaveStatus(404)` or `toHaveStatus('Not Found')` checks the status code or the status,
+ * - `toHaveHeader('Retry-After', '30')` checks a header regardless of its case, with an optional value or pattern,
+ * - `toMatchProblemDetails({ title: 'Not Found', errors: [...] })` checks the members of the problem details, ignoring those not expected.
+ */
+export const matchers = {
+	toBeHttpResponse(received: unknown, ResponseClass: ResponseClass = HttpResponse as ResponseClass): MatcherResult {
+		return result(received instanceof ResponseClass, `to be ${ResponseClass === HttpResponse ? 'an HttpResponse' : `a ${ResponseClass.name}`}`, received)
+	},
+
+	toHaveStatus(received: unknown, status: number | string): MatcherResult {
+		if (!(received instanceof HttpResponse)) {
+			return result(false, `to have status ${status}`, received, 'something else than an HttpResponse')
+		}
+		const actual = typeof status === 'number' ? received.statusCode : received.status
+		return result(actual === status, `to have status ${JSON.stringify(status)}`, received, JSON.stringify(actual))
+	},
+
+	toHaveHeader(received: unknown, name: string, value?: string | RegExp): MatcherResult {
+		const expectation = `to have header ${name}${value === undefined ? '' : ` matching ${value instanceof RegExp ? value : JSON.stringify(value)}`}`
+		if (!(received instanceof HttpResponse)) {
+			return result(false, expectation, received, 'something else than an HttpResponse')
+		}
+		const actual = received.getHeader(name)
+		const pass = actual !== undefined && (value === undefined || (value instanceof RegExp ? value.test(actual) : actual === value))
+		return result(pass, expectation, received, actual === undefined ? 'no such header' : JSON.stringify(actual))
+	},
+
+	toMatchProblemDetails(received: unknown, expected: Partial<ProblemDetails>): MatcherResult {
+		const expectation = `to match the problem details ${JSON.stringify(expected)}`
+		if (!(received instanceof HttpResponse)) {
+			return result(false, expectation, received, 'something else than an HttpResponse')
+		}
+		const problem = received.toProblemDetails()
+		return result(matchesSubset(problem, expected), expectation, received, JSON.stringify(problem))
+	},
+}
+
+function assertionError(message: string): Error {
+	const error = new Error(message)
+	error.name = 'AssertionError'
+	return error
+}
+
+function assert(outcome: MatcherResult): void {
+	if (!outcome.pass) {
+		throw assertionError(outcome.message())
+	}
+}
+
+/**
+ * Asserts that a value is a response, of a given class if any, for test frameworks without custom matchers.
+ */
+export function assertHttpResponse<T extends HttpResponse = HttpResponse>(value: unknown, ResponseClass?: ResponseClass<T>): T {
+	assert(matchers.toBeHttpResponse(value, ResponseClass))
+	return value as T
+}
+
+/**
+ * Asserts that a promise rejects with a response of a given class, and returns that response for further checks.
+ *
+ * const error = await rejectsWith(users.find('42'), NotFound)
+ * expect(error.message).toMatch(/42/)
+ */
+export async function rejectsWith<T extends HttpResponse>(promise: Promise<unknown>, ResponseClass: ResponseClass<T>): Promise<T> {
+	let value: unknown
+	try {
+		value = await promise
+	} catch (error) {
+		return assertHttpResponse(error, ResponseClass)
+	}
+	throw assertionError(`expected the promise to reject with a ${ResponseClass.name}, but it resolved with ${display(value)}`)
+}
+
+/**
+ * Asserts that a promise resolves with a response of a given class, and returns that response for further checks.
+ */
+export async function resolvesWith<T extends HttpResponse>(promise: Promise<unknown>, ResponseClass: ResponseClass<T>): Promise<T> {
+	return assertHttpResponse(await promise, ResponseClass)
+}
+
+// Builds a response as it is, or otherwise with the required headers it lacks, one missing header at a time
+function withRequiredHeaders<T>(build: (options: ResponseOptions) => T, options: ResponseOptions): T {
+	let headers = options.headers
+	for (;;) {
+		try {
+			return build({ ...options, headers })
+		} catch (error) {
+			const missing = error instanceof MissingHeaderError && findHeader(headers, error.header) === undefined ? requiredHeaderExamples[error.header] : undefined
+			if (missing === undefined) {
+				throw error
+			}
+			headers = { [error.header]: missing, ...headers }
+		}
+	}
+}
+
+/**
+ * Builds a response of any class for tests, filling in the headers some classes require when they aren't given.
+ *
+ * fakeResponse(Unauthorized, { message: 'Token expired' })
+ */
+export function fakeResponse<T extends HttpResponse>(ResponseClass: ResponseClass<T>, options: ResponseOptions = {}): T {
+	return withRequiredHeaders(fakeOptions => new ResponseClass(fakeOptions), options)
+}
+
+/**
+ * Builds the response class registered for a status code, filling in the header it requires when it isn't given.
+ *
+ * fakeStatus(503, { headers: { 'Retry-After': '30' } })
+ */
+export function fakeStatus(statusCode: number, options: ResponseOptions = {}): HttpResponse {
+	const ResponseClass = getResponseClass(statusCode)
+	return ResponseClass ? fakeResponse(ResponseClass, options) : fromStatusCode(statusCode, options)
+}
@@ -0,0 +1,81 @@
+import { FieldViolation, UnprocessableEntity, ValidationOptions, toPointer } from './index'
+
+/**
+ * An error reported by ajv or any other JSON Schema validator following its format. Ajv 8 reports `instancePath` as a JSON pointer, older versions report `dataPath` in JavaScript notation.
+ */
+export interface AjvErrorLike {
+	keyword: string
+	instancePath?: string
+	dataPath?: string
+	message?: string
+	params?: { [param: string]: unknown }
+}
+
+/**
+ * An issue reported by zod or any other validator following its format.
+ */
+export interface ZodIssueLike {
+	code: string
+	path: Array<string | number>
+	message: string
+}
+
+// Turns a JavaScript path such as .items[0]['first name'] into its segments
+function parseDataPath(dataPath: string): Array<string | number> {
+	const segments: Array<string | number> = []
+	const pattern = /\.([^.[\]]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]/g
+	let match: RegExpExecArray | null
+	while ((match = pattern.exec(dataPath))) {
+		segments.push(match[2] !== undefined ? Number(match[2]) : match[1] !== undefined ? match[1] : match[3].replace(/\\(.)/g, '$1'))
+	}
+	return segments
+}
+
+function ajvPointer(error: AjvErrorLike): string {
+	const legacy = error.instancePath === undefined
+	const path = error.instancePath !== undefined ? error.instancePath : toPointer(parseDataPath(error.dataPath || ''))
+	// Ajv reports missing and unexpected properties on their parent object, and up to version 6 the missing ones in JavaScript notation too
+	const params = error.params || {}
+	const property = error.keyword === 'required' ? params.missingProperty : error.keyword === 'additionalProperties' ? params.additionalProperty : undefined
+	if (typeof property !== 'string') {
+		return path
+	}
+	return path + toPointer(legacy && /^[.[]/.test(property) ? parseDataPath(property) : [property])
+}
+
+/**
+ * Converts the errors of a JSON Schema validator such as ajv into violations.
+ */
+export function ajvViolations(errors: AjvErrorLike[] | null | undefined): FieldViolation[] {
+	return (errors || []).map(error => ({
+		path: ajvPointer(error),
+		code: error.keyword,
+		message: error.message || 'is invalid',
+	}))
+}
+
+/**
+ * Converts the issues of a zod error into violations.
+ */
+export function zodViolations(issues: ZodIssueLike[]): FieldViolation[] {
+	return issues.map(({ path, code, message }) => ({ path: toPointer(path), code, message }))
+}
+
+/**
+ * Builds a single `UnprocessableEntity` out of the errors of a JSON Schema validator such as ajv.
+ *
+ * if (!validate(req.body)) throw fromAjvErrors(validate.errors)
+ */
+export function fromAjvErrors<TBody = unknown>(errors: AjvErrorLike[] | null | undefined, options: ValidationOptions<TBody> = {}) {
+	return new UnprocessableEntity<TBody>({ ...options, violations: ajvViolations(errors) })
+}
+
+/**
+ * Builds a single `UnprocessableEntity` out of the issues of a zod error.
+ *
+ * const result = schema.safeParse(req.body)
+ * if (!result.success) throw fromZodIssues(result.error.issues)
+ */
+export function fromZodIssues<TBody = unknown>(issues: ZodIssueLike[], options: ValidationOptions<TBody> = {}) {
+	return new UnprocessableEntity<TBody>({ ...options, violations: zodViolations(issues) })
+}